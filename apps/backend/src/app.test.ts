@@ -0,0 +1,126 @@
+import { promises as fs } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateTileMap } from '../../frontend/src/lib/game-logic';
+import { SAVE_VERSION } from '../../frontend/src/lib/save-format';
+import { createAttempt } from '../../frontend/src/lib/test-fixtures';
+import { createApp } from './app';
+import type { ChallengeAttempt, GameSession, PlayerProfile } from './schemas';
+import { FileStore } from './store';
+
+const TOKEN = 'a'.repeat(32);
+const OTHER_TOKEN = 'b'.repeat(32);
+
+// A save as the client sends it, with only the fields validation does not fill in
+function createSave(playerId: string, lastPlayedAt: string) {
+  const map = generateTileMap('map-1', 8, 8, 'easy', { seed: 3 });
+  const session = {
+    player: {
+      id: playerId,
+      name: 'Ada',
+      currentPosition: map.startPosition,
+      currentMapId: map.id,
+      currency: 5,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      lastPlayedAt,
+    },
+    currentMap: map,
+    gameStartedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return { version: SAVE_VERSION, session };
+}
+
+interface ProfileList {
+  profiles: PlayerProfile[];
+}
+
+const readJson = <T = unknown>(response: Response) => response.json() as Promise<T>;
+
+describe('sync API', () => {
+  let directory: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'math-cash-'));
+    server = createApp(new FileStore(directory)).listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const request = (method: string, route: string, body?: unknown, token = TOKEN) =>
+    fetch(`${baseUrl}${route}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const putSave = (playerId: string, lastPlayedAt: string) =>
+    request('PUT', `/profiles/${playerId}/session`, createSave(playerId, lastPlayedAt));
+
+  it('needs a family token', async () => {
+    expect((await request('GET', '/profiles', undefined, 'secret')).status).toBe(401);
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+  });
+
+  it('stores a save and lists it for the same family only', async () => {
+    expect((await putSave('player-1', '2026-01-02T00:00:00.000Z')).status).toBe(200);
+
+    const listed = await readJson<ProfileList>(await request('GET', '/profiles'));
+    expect(listed.profiles).toMatchObject([{ id: 'player-1', name: 'Ada', currency: 5 }]);
+    const otherFamily = await request('GET', '/profiles', undefined, OTHER_TOKEN);
+    expect(await readJson<ProfileList>(otherFamily)).toEqual({ profiles: [] });
+
+    const stored = await request('GET', '/profiles/player-1/session');
+    expect((await readJson<{ session: GameSession }>(stored)).session.player.id).toBe('player-1');
+  });
+
+  it('refuses a save older than the one it has', async () => {
+    await putSave('player-1', '2026-01-03T00:00:00.000Z');
+    expect((await putSave('player-1', '2026-01-02T00:00:00.000Z')).status).toBe(409);
+  });
+
+  it('rejects a save for another player or one that fails validation', async () => {
+    const save = createSave('player-2', '2026-01-02T00:00:00.000Z');
+    expect((await request('PUT', '/profiles/player-1/session', save)).status).toBe(400);
+    expect((await request('PUT', '/profiles/player-1/session', { player: {} })).status).toBe(400);
+  });
+
+  it('appends attempts once, even when a push is retried', async () => {
+    const attempts = [createAttempt('player-1', 1), createAttempt('player-1', 2)];
+    await request('POST', '/profiles/player-1/attempts', { attempts });
+    const retried = await request('POST', '/profiles/player-1/attempts', { attempts });
+    expect(await readJson(retried)).toEqual({ count: 2 });
+
+    const stored = await request('GET', '/profiles/player-1/attempts');
+    const { attempts: kept } = await readJson<{ attempts: ChallengeAttempt[] }>(stored);
+    expect(kept.map((attempt) => attempt.submittedAnswer)).toEqual([1, 2]);
+  });
+
+  it('deletes a player', async () => {
+    await putSave('player-1', '2026-01-02T00:00:00.000Z');
+    expect((await request('DELETE', '/profiles/player-1')).status).toBe(204);
+    expect((await request('GET', '/profiles/player-1/session')).status).toBe(404);
+  });
+
+  it('still lists the family when one player file is corrupt', async () => {
+    await putSave('player-1', '2026-01-02T00:00:00.000Z');
+    const [familyDirectory] = await fs.readdir(directory);
+    await fs.writeFile(path.join(directory, familyDirectory, 'player-2.json'), 'not json');
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = await request('GET', '/profiles');
+    expect(response.status).toBe(200);
+    expect((await readJson<ProfileList>(response)).profiles).toMatchObject([{ id: 'player-1' }]);
+    expect(logError).toHaveBeenCalled();
+    logError.mockRestore();
+  });
+});
@@ -0,0 +1,177 @@
+import { createHash } from 'node:crypto';
+import express from 'express';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { GameSession } from './schemas';
+import type { FileStore } from './store';
+import { MAX_ATTEMPTS_PER_PLAYER } from './store';
+import {
+  AttemptBatch,
+  PlayerId,
+  SyncToken,
+  parseSave,
+  serializeSave,
+  toPlayerProfile,
+} from './schemas';
+
+/**
+ * REST API for syncing player progress between devices:
+ *
+ *   GET    /api/health
+ *   GET    /api/profiles                      the family's players
+ *   GET    /api/profiles/:playerId/session    versioned save, as sent by the client
+ *   PUT    /api/profiles/:playerId/session    store a save unless the server's is newer (409)
+ *   GET    /api/profiles/:playerId/attempts   attempt history, oldest first
+ *   POST   /api/profiles/:playerId/attempts   append attempts (duplicates are ignored)
+ *   DELETE /api/profiles/:playerId
+ *
+ * Every route but health needs the family's sync token as `Authorization: Bearer <token>`,
+ * and only sees that family's players.
+ */
+export function createApp(store: FileStore): express.Express {
+  const app = express();
+  // Sessions carry the whole map
+  app.use(express.json({ limit: '5mb' }));
+
+  const api = express.Router();
+
+  api.param('playerId', (_req, res, next, playerId: string) => {
+    if (!PlayerId.safeParse(playerId).success) {
+      res.status(400).json({ error: 'Invalid player id' });
+      return;
+    }
+    next();
+  });
+
+  api.get('/health', (_req, res) => {
+    res.json({ ok: true });
+  });
+
+  api.use((req, res, next) => {
+    const token = SyncToken.safeParse(req.get('Authorization')?.replace(/^Bearer /, ''));
+    if (!token.success) {
+      res.status(401).json({ error: 'A family sync token is required' });
+      return;
+    }
+    // Files are kept under a hash of the token, so the data directory never holds the secret
+    res.locals.familyId = createHash('sha256').update(token.data).digest('hex');
+    next();
+  });
+
+  api.get(
+    '/profiles',
+    handle(async (_req, res) => {
+      res.json({ profiles: await store.listProfiles(res.locals.familyId) });
+    })
+  );
+
+  api.get(
+    '/profiles/:playerId/session',
+    handle(async (req, res) => {
+      const record = await store.getPlayer(res.locals.familyId, req.params.playerId);
+      if (!record?.save) {
+        res.status(404).json({ error: 'No saved session' });
+        return;
+      }
+      res.type('application/json').send(record.save);
+    })
+  );
+
+  api.put(
+    '/profiles/:playerId/session',
+    handle(async (req, res) => {
+      let session: GameSession;
+      try {
+        session = parseSave(JSON.stringify(req.body));
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+      if (session.player.id !== req.params.playerId) {
+        res.status(400).json({ error: 'Session belongs to another player' });
+        return;
+      }
+
+      const profile = toPlayerProfile(session);
+      let conflict = false;
+      await store.updatePlayer(res.locals.familyId, req.params.playerId, (current) => {
+        const stored = current?.profile;
+        // Last played wins; an older device must not roll progress back
+        if (stored && stored.lastPlayedAt > profile.lastPlayedAt) {
+          conflict = true;
+          return current;
+        }
+        return { attempts: [], ...current, profile, save: serializeSave(session) };
+      });
+
+      if (conflict) {
+        res.status(409).json({ error: 'The server has newer progress for this player' });
+        return;
+      }
+      res.json({ profile });
+    })
+  );
+
+  api.get(
+    '/profiles/:playerId/attempts',
+    handle(async (req, res) => {
+      const record = await store.getPlayer(res.locals.familyId, req.params.playerId);
+      res.json({ attempts: record?.attempts ?? [] });
+    })
+  );
+
+  api.post(
+    '/profiles/:playerId/attempts',
+    handle(async (req, res) => {
+      const batch = AttemptBatch.safeParse(req.body);
+      if (!batch.success) {
+        res.status(400).json({ error: batch.error.issues[0]?.message ?? 'Invalid attempts' });
+        return;
+      }
+      const { playerId } = req.params;
+      if (batch.data.attempts.some((attempt) => attempt.playerId !== playerId)) {
+        res.status(400).json({ error: 'Attempts belong to another player' });
+        return;
+      }
+
+      const record = await store.updatePlayer(res.locals.familyId, playerId, (current) => {
+        const attempts = current?.attempts ?? [];
+        // A retried push may resend attempts the server already has
+        const seen = new Set(attempts.map(getAttemptKey));
+        const added = batch.data.attempts.filter((attempt) => !seen.has(getAttemptKey(attempt)));
+        return {
+          ...current,
+          attempts: [...attempts, ...added].slice(-MAX_ATTEMPTS_PER_PLAYER),
+        };
+      });
+      res.json({ count: record?.attempts.length ?? 0 });
+    })
+  );
+
+  api.delete(
+    '/profiles/:playerId',
+    handle(async (req, res) => {
+      await store.updatePlayer(res.locals.familyId, req.params.playerId, () => null);
+      res.status(204).end();
+    })
+  );
+
+  app.use('/api', api);
+
+  app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    console.error(error);
+    res.status(500).json({ error: 'Something went wrong' });
+  });
+
+  return app;
+}
+
+function getAttemptKey(attempt: { challengeId: string; timestamp: Date | string }): string {
+  return `${attempt.challengeId}@${new Date(attempt.timestamp).toISOString()}`;
+}
+
+// Express 4 does not catch rejected promises, so pass them on to the error handler
+function handle(handler: (req: Request, res: Response) => Promise<void>): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
@@ -0,0 +1,10 @@
+import path from 'node:path';
+import { createApp } from './app';
+import { FileStore } from './store';
+
+const port = Number(process.env.PORT ?? 3001);
+const dataDirectory = process.env.DATA_DIR ?? path.resolve('data');
+
+createApp(new FileStore(dataDirectory)).listen(port, () => {
+  console.log(`Math Cash sync server on http://localhost:${port}, storing data in ${dataDirectory}`);
+});
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { PlayerProfile, StoredChallengeAttempt } from '../../frontend/src/lib/types';
+
+// Game types and save handling are shared with the client so both validate the same way
+export type { ChallengeAttempt, GameSession, PlayerProfile } from '../../frontend/src/lib/types';
+export { parseSave, serializeSave, toPlayerProfile } from '../../frontend/src/lib/save-format';
+
+// Ids become file names, so only allow what the client generates (player-1700000000000)
+export const PlayerId = z.string().regex(/^[\w-]{1,64}$/);
+
+// The secret a family's devices share, sent as a bearer token; the client generates 32 hex digits
+export const SyncToken = z.string().regex(/^[0-9a-f]{32,128}$/);
+
+// Attempts arrive as JSON, with timestamps as strings
+export const AttemptBatch = z.object({
+  attempts: z.array(StoredChallengeAttempt).max(2000),
+});
+
+// A player's file as FileStore writes it, read back with its dates as strings
+export const PlayerRecord = z.object({
+  profile: PlayerProfile.extend({ lastPlayedAt: z.coerce.date() }).optional(),
+  save: z.string().optional(),
+  attempts: z.array(StoredChallengeAttempt),
+});
+export type PlayerRecord = z.infer<typeof PlayerRecord>;
@@ -0,0 +1,93 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { PlayerProfile } from './schemas';
+import { PlayerRecord } from './schemas';
+
+// Same bound the client keeps locally
+export const MAX_ATTEMPTS_PER_PLAYER = 2000;
+
+/**
+ * Stores each player as a JSON file, in a directory per family. A record keeps the save exactly
+ * as the client sent it (a versioned session), so it is handed back byte for byte.
+ * Updates to one player run one at a time, and files are replaced atomically so a crash never
+ * leaves half a save.
+ */
+export class FileStore {
+  // Update in progress for each player, by file
+  private readonly updates = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly directory: string) {}
+
+  async listProfiles(familyId: string): Promise<PlayerProfile[]> {
+    const directory = path.join(this.directory, familyId);
+    await fs.mkdir(directory, { recursive: true });
+    const files = (await fs.readdir(directory)).filter((file) => file.endsWith('.json'));
+    const records = await Promise.all(
+      files.map((file) =>
+        // One unreadable player must not hide the rest of the family
+        this.getPlayer(familyId, path.basename(file, '.json')).catch((error: unknown) => {
+          console.error(`Skipping unreadable player file ${file}`, error);
+          return null;
+        })
+      )
+    );
+    return records.flatMap((record) => (record?.profile ? [record.profile] : []));
+  }
+
+  async getPlayer(familyId: string, playerId: string): Promise<PlayerRecord | null> {
+    try {
+      const raw = await fs.readFile(this.getFile(familyId, playerId), 'utf8');
+      return PlayerRecord.parse(JSON.parse(raw));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read, change and write a player's record; returning null from `change` deletes it
+   */
+  updatePlayer(
+    familyId: string,
+    playerId: string,
+    change: (current: PlayerRecord | null) => PlayerRecord | null
+  ): Promise<PlayerRecord | null> {
+    const file = this.getFile(familyId, playerId);
+    const previous = this.updates.get(file) ?? Promise.resolve();
+    const update = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const next = change(await this.getPlayer(familyId, playerId));
+        if (next) {
+          await this.write(file, next);
+        } else {
+          await fs.rm(file, { force: true });
+        }
+        return next;
+      });
+
+    this.updates.set(file, update);
+    // The caller handles a failed update; this chain only forgets it once it has settled
+    void update
+      .catch(() => undefined)
+      .then(() => {
+        if (this.updates.get(file) === update) {
+          this.updates.delete(file);
+        }
+      });
+    return update;
+  }
+
+  private async write(file: string, record: PlayerRecord) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(record));
+    await fs.rename(temporary, file);
+  }
+
+  private getFile(familyId: string, playerId: string): string {
+    return path.join(this.directory, familyId, `${playerId}.json`);
+  }
+}
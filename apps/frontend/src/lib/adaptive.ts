@@ -0,0 +1,133 @@
+import type {
+  ChallengeAttempt,
+  ChallengeTuning,
+  DifficultyLevel,
+  MathOperation,
+  OperationMastery,
+  PlayerState,
+} from './types';
+import { getNextDifficulty, getOperationsForDifficulty, shiftDifficulty } from './game-logic';
+
+export type MasteryMap = PlayerState['mastery'];
+
+// How strongly each new attempt moves the estimate; higher forgets older attempts faster
+const MASTERY_SMOOTHING = 0.2;
+
+// Attempts needed before an operation's estimate is trusted
+const MIN_ATTEMPTS = 5;
+
+// Below this an operation gets easier numbers and more practice; above the next it gets harder numbers
+const STRUGGLING_BELOW = 0.5;
+const MASTERED_ABOVE = 0.85;
+
+// Average mastery needed across the current mix to move up, and below which to move down
+const ADVANCE_AT = 0.7;
+const RETREAT_BELOW = 0.45;
+
+// Credit for a correct answer that took three times the target (or longer)
+const SLOW_ANSWER_CREDIT = 0.6;
+
+// Seconds a confident answer takes; slower correct answers earn less credit
+const targetSecondsByOperation: Record<MathOperation, number> = {
+  addition: 8,
+  subtraction: 10,
+  multiplication: 10,
+  division: 12,
+  'order-of-operations': 25,
+  'fraction-addition': 25,
+  'fraction-subtraction': 25,
+  'fraction-simplification': 20,
+  'decimal-addition': 20,
+  'decimal-subtraction': 20,
+  'money-counting': 20,
+  'clock-reading': 15,
+  'elapsed-time': 30,
+  'number-pattern': 15,
+};
+
+/**
+ * Score a single attempt between 0 (wrong) and 1 (correct within the target time)
+ */
+export function scoreAttempt(attempt: Pick<ChallengeAttempt, 'operation' | 'isCorrect' | 'timeSpent'>): number {
+  if (!attempt.isCorrect) {
+    return 0;
+  }
+
+  const target = targetSecondsByOperation[attempt.operation];
+  if (attempt.timeSpent <= target) {
+    return 1;
+  }
+
+  // Fade linearly down to the slow-answer credit at three times the target
+  const overrun = Math.min((attempt.timeSpent - target) / (target * 2), 1);
+  return 1 - overrun * (1 - SLOW_ANSWER_CREDIT);
+}
+
+/**
+ * Fold an attempt into the player's mastery estimates, returning the updated map
+ */
+export function updateMastery(mastery: MasteryMap, attempt: ChallengeAttempt): MasteryMap {
+  const score = scoreAttempt(attempt);
+  const previous = mastery[attempt.operation];
+
+  const next: OperationMastery = previous
+    ? {
+        score: previous.score + (score - previous.score) * MASTERY_SMOOTHING,
+        attempts: previous.attempts + 1,
+        averageTime: previous.averageTime + (attempt.timeSpent - previous.averageTime) * MASTERY_SMOOTHING,
+      }
+    : { score, attempts: 1, averageTime: attempt.timeSpent };
+
+  return { ...mastery, [attempt.operation]: next };
+}
+
+/**
+ * Turn mastery estimates into a challenge mix: struggling operations come up more often with
+ * easier numbers, mastered ones less often with harder numbers
+ */
+export function getChallengeTuning(mastery: MasteryMap): ChallengeTuning {
+  const tuning: ChallengeTuning = { operationWeights: {}, operandLevelShift: {} };
+
+  for (const [operation, estimate] of Object.entries(mastery) as [MathOperation, OperationMastery][]) {
+    if (estimate.attempts < MIN_ATTEMPTS) {
+      continue;
+    }
+
+    if (estimate.score < STRUGGLING_BELOW) {
+      tuning.operationWeights[operation] = 1.5;
+      tuning.operandLevelShift[operation] = -1;
+    } else if (estimate.score > MASTERED_ABOVE) {
+      tuning.operationWeights[operation] = 0.7;
+      tuning.operandLevelShift[operation] = 1;
+    }
+  }
+
+  return tuning;
+}
+
+/**
+ * Recommend the difficulty for the next map from mastery of the current level's operations.
+ * Moves up when the mix is going well, stays while any operation still needs work, and steps
+ * down when the level is too hard. Without enough history it keeps the usual one-step progression.
+ */
+export function recommendDifficulty(mastery: MasteryMap, current: DifficultyLevel): DifficultyLevel {
+  const estimates = getOperationsForDifficulty(current)
+    .map((operation) => mastery[operation])
+    .filter((estimate): estimate is OperationMastery => !!estimate && estimate.attempts >= MIN_ATTEMPTS);
+
+  if (estimates.length === 0) {
+    return getNextDifficulty(current);
+  }
+
+  const average = estimates.reduce((sum, estimate) => sum + estimate.score, 0) / estimates.length;
+  if (average < RETREAT_BELOW) {
+    return shiftDifficulty(current, -1);
+  }
+
+  const isStruggling = estimates.some((estimate) => estimate.score < STRUGGLING_BELOW);
+  if (average >= ADVANCE_AT && !isStruggling) {
+    return getNextDifficulty(current);
+  }
+
+  return current;
+}
@@ -0,0 +1,282 @@
+import type { ChallengeAttempt, MathOperation, PlayerState } from './types';
+
+export interface AccuracySummary {
+  attempts: number;
+  correct: number;
+  accuracy: number; // 0-1
+  averageTime: number; // seconds
+}
+
+export interface FactSummary extends AccuracySummary {
+  fact: string;
+  operation: MathOperation;
+}
+
+export interface DailySummary extends AccuracySummary {
+  day: string; // local date, YYYY-MM-DD
+}
+
+/**
+ * Accuracy and speed for each operation the player has attempted
+ */
+export function getAccuracyByOperation(
+  attempts: ChallengeAttempt[]
+): Partial<Record<MathOperation, AccuracySummary>> {
+  const groups = groupBy(attempts, (attempt) => attempt.operation);
+  const result: Partial<Record<MathOperation, AccuracySummary>> = {};
+  for (const [operation, group] of groups) {
+    result[operation] = summarize(group);
+  }
+  return result;
+}
+
+/**
+ * Facts that take longest to answer on average, slowest first.
+ * Facts seen fewer than minAttempts times are left out as too noisy.
+ */
+export function getSlowestFacts(
+  attempts: ChallengeAttempt[],
+  limit = 10,
+  minAttempts = 1
+): FactSummary[] {
+  return getFactSummaries(attempts)
+    .filter((fact) => fact.attempts >= minAttempts)
+    .sort((a, b) => b.averageTime - a.averageTime)
+    .slice(0, limit);
+}
+
+/**
+ * Facts missed most often, least accurate first
+ */
+export function getMostMissedFacts(attempts: ChallengeAttempt[], limit = 10): FactSummary[] {
+  return getFactSummaries(attempts)
+    .filter((fact) => fact.correct < fact.attempts)
+    .sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts)
+    .slice(0, limit);
+}
+
+/**
+ * Accuracy and speed per day, oldest first. Only days with attempts are listed.
+ * Pass `days` to keep just the most recent ones.
+ */
+export function getDailyTrend(attempts: ChallengeAttempt[], days?: number): DailySummary[] {
+  const groups = groupBy(attempts, (attempt) => toDayKey(attempt.timestamp));
+  const trend = [...groups]
+    .map(([day, group]) => ({ day, ...summarize(group) }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+  return days === undefined ? trend : trend.slice(-days);
+}
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD
+ */
+export function toDayKey(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function getFactSummaries(attempts: ChallengeAttempt[]): FactSummary[] {
+  return [...groupBy(attempts, (attempt) => attempt.fact)].map(([fact, group]) => ({
+    fact,
+    operation: group[0].operation,
+    ...summarize(group),
+  }));
+}
+
+function summarize(attempts: ChallengeAttempt[]): AccuracySummary {
+  const correct = attempts.filter((attempt) => attempt.isCorrect).length;
+  const totalTime = attempts.reduce((sum, attempt) => sum + attempt.timeSpent, 0);
+  return {
+    attempts: attempts.length,
+    correct,
+    accuracy: attempts.length > 0 ? correct / attempts.length : 0,
+    averageTime: attempts.length > 0 ? totalTime / attempts.length : 0,
+  };
+}
+
+function groupBy<K>(
+  attempts: ChallengeAttempt[],
+  getKey: (attempt: ChallengeAttempt) => K
+): Map<K, ChallengeAttempt[]> {
+  const groups = new Map<K, ChallengeAttempt[]>();
+  for (const attempt of attempts) {
+    const key = getKey(attempt);
+    const group = groups.get(key);
+    if (group) {
+      group.push(attempt);
+    } else {
+      groups.set(key, [attempt]);
+    }
+  }
+  return groups;
+}
+
+// Multiplication facts covered by the mastery grid
+export const TIMES_TABLE_SIZE = 12;
+
+export interface OperationReport extends AccuracySummary {
+  operation: MathOperation;
+}
+
+export interface DailyActivity {
+  day: string; // local date, YYYY-MM-DD
+  secondsPlayed: number;
+  attempts: number;
+  accuracy: number; // 0-1
+}
+
+// One cell of the times-table grid; a × b and b × a share a cell
+export interface TimesTableCell extends AccuracySummary {
+  factors: [number, number];
+}
+
+export interface ProgressReport {
+  playerName: string;
+  generatedAt: Date;
+  operations: OperationReport[];
+  // Row a, column b holds a × b (1-based factors at index factor - 1)
+  timesTable: TimesTableCell[][];
+  days: DailyActivity[];
+  slowestFacts: FactSummary[];
+  mostMissedFacts: FactSummary[];
+}
+
+/**
+ * Gather everything a parent or teacher report shows from a player's history
+ */
+export function buildProgressReport(
+  player: Pick<PlayerState, 'name' | 'playTimeByDay'>,
+  attempts: ChallengeAttempt[]
+): ProgressReport {
+  const operations = Object.entries(getAccuracyByOperation(attempts)).map(
+    ([operation, summary]) => ({ operation: operation as MathOperation, ...summary })
+  );
+
+  const trend = new Map(getDailyTrend(attempts).map((entry) => [entry.day, entry]));
+  const playTime = player.playTimeByDay ?? {};
+  const days = [...new Set([...trend.keys(), ...Object.keys(playTime)])].sort().map((day) => ({
+    day,
+    secondsPlayed: Math.round(playTime[day] ?? 0),
+    attempts: trend.get(day)?.attempts ?? 0,
+    accuracy: trend.get(day)?.accuracy ?? 0,
+  }));
+
+  return {
+    playerName: player.name,
+    generatedAt: new Date(),
+    operations,
+    timesTable: getTimesTable(attempts),
+    days,
+    slowestFacts: getSlowestFacts(attempts, 10, 2),
+    mostMissedFacts: getMostMissedFacts(attempts, 10),
+  };
+}
+
+/**
+ * Accuracy for each times-table fact up to TIMES_TABLE_SIZE × TIMES_TABLE_SIZE,
+ * counting missing-factor problems (7 × ? = 56) towards the same fact
+ */
+export function getTimesTable(attempts: ChallengeAttempt[]): TimesTableCell[][] {
+  const inTable = (value: number) =>
+    Number.isInteger(value) && value >= 1 && value <= TIMES_TABLE_SIZE;
+  const facts = groupBy(
+    attempts.filter(
+      (attempt) =>
+        attempt.operation === 'multiplication' &&
+        attempt.operands.length === 2 &&
+        attempt.operands.every((operand) => inTable(Math.abs(operand)))
+    ),
+    (attempt) => {
+      const [a, b] = attempt.operands.map(Math.abs).sort((x, y) => x - y);
+      return `${a}x${b}`;
+    }
+  );
+
+  return Array.from({ length: TIMES_TABLE_SIZE }, (_, row) =>
+    Array.from({ length: TIMES_TABLE_SIZE }, (_, column) => {
+      const [a, b] = [row + 1, column + 1].sort((x, y) => x - y);
+      return {
+        factors: [row + 1, column + 1] as [number, number],
+        ...summarize(facts.get(`${a}x${b}`) ?? []),
+      };
+    })
+  );
+}
+
+/**
+ * Flatten a report into one CSV table with a section column, ready for a spreadsheet
+ */
+export function progressReportToCsv(report: ProgressReport): string {
+  const header = [
+    'section',
+    'item',
+    'attempts',
+    'correct',
+    'accuracy',
+    'average_seconds',
+    'seconds_played',
+  ];
+  const rows: (string | number)[][] = [
+    ...report.operations.map((entry) => [
+      'operation',
+      entry.operation,
+      entry.attempts,
+      entry.correct,
+      round(entry.accuracy),
+      round(entry.averageTime),
+      '',
+    ]),
+    ...report.timesTable
+      .flat()
+      .filter((cell) => cell.attempts > 0 && cell.factors[0] <= cell.factors[1])
+      .map((cell) => [
+        'times_table',
+        `${cell.factors[0]} × ${cell.factors[1]}`,
+        cell.attempts,
+        cell.correct,
+        round(cell.accuracy),
+        round(cell.averageTime),
+        '',
+      ]),
+    ...report.slowestFacts.map((fact) => [
+      'slow_fact',
+      fact.fact,
+      fact.attempts,
+      fact.correct,
+      round(fact.accuracy),
+      round(fact.averageTime),
+      '',
+    ]),
+    ...report.mostMissedFacts.map((fact) => [
+      'missed_fact',
+      fact.fact,
+      fact.attempts,
+      fact.correct,
+      round(fact.accuracy),
+      round(fact.averageTime),
+      '',
+    ]),
+    ...report.days.map((day) => [
+      'day',
+      day.day,
+      day.attempts,
+      '',
+      round(day.accuracy),
+      '',
+      day.secondsPlayed,
+    ]),
+  ];
+
+  return [header, ...rows].map((row) => row.map(toCsvField).join(',')).join('\n');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toCsvField(value: string | number): string {
+  // Spreadsheets run any text starting with =, +, - or @ as a formula, so such fields are kept as text
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : `${value}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addInterest,
+  createSavingsAccount,
+  depositSavings,
+  getInterestKind,
+  getMapsUntilBalance,
+  projectSavings,
+  withdrawSavings,
+} from './bank';
+
+describe('savings', () => {
+  it('pays simple interest on deposits only', () => {
+    const account = depositSavings(createSavingsAccount(), 100);
+    expect(projectSavings(account, 'simple', 3)).toEqual([110, 120, 130]);
+  });
+
+  it('pays compound interest on earlier interest too', () => {
+    const account = depositSavings(createSavingsAccount(), 100);
+    expect(projectSavings(account, 'compound', 3)).toEqual([110, 121, 133]);
+  });
+
+  it('starts compound interest at easy maps', () => {
+    expect(getInterestKind('beginner')).toBe('simple');
+    expect(getInterestKind('easy')).toBe('compound');
+  });
+
+  it('spends interest before deposits when withdrawing', () => {
+    const saved = addInterest(depositSavings(createSavingsAccount(), 100), 'simple').account;
+    expect(withdrawSavings(saved, 5)).toEqual({ balance: 105, principal: 100 });
+    expect(withdrawSavings(saved, 50)).toEqual({ balance: 60, principal: 60 });
+    expect(withdrawSavings(saved, 500)).toEqual({ balance: 0, principal: 0 });
+  });
+
+  it('counts the maps until interest reaches a goal', () => {
+    const account = depositSavings(createSavingsAccount(), 100);
+    expect(getMapsUntilBalance(account, 'simple', 100)).toBe(0);
+    expect(getMapsUntilBalance(account, 'simple', 125)).toBe(3);
+    expect(getMapsUntilBalance(account, 'compound', 125)).toBe(3);
+    expect(getMapsUntilBalance(createSavingsAccount(), 'compound', 10)).toBeNull();
+  });
+});
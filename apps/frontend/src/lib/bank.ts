@@ -0,0 +1,98 @@
+import type { DifficultyLevel, SavingsAccount } from './types';
+import { DifficultyLevel as DifficultyLevels } from './types';
+
+// Interest paid on savings for each completed map
+export const INTEREST_RATE_PERCENT = 10;
+
+// Younger players learn simple interest first; compound interest starts at this difficulty
+const COMPOUND_INTEREST_FROM: DifficultyLevel = 'easy';
+
+// Projections stop here; a goal further off than this is "a long way off"
+const MAX_PROJECTED_MAPS = 50;
+
+export type InterestKind = 'simple' | 'compound';
+
+export function createSavingsAccount(): SavingsAccount {
+  return { balance: 0, principal: 0 };
+}
+
+/**
+ * Which kind of interest savings earn on maps of a difficulty
+ */
+export function getInterestKind(difficulty: DifficultyLevel): InterestKind {
+  const levels = DifficultyLevels.options;
+  return levels.indexOf(difficulty) >= levels.indexOf(COMPOUND_INTEREST_FROM)
+    ? 'compound'
+    : 'simple';
+}
+
+/**
+ * Interest the next completed map pays, in whole coins: a share of the deposits for simple
+ * interest, or of the whole balance (earlier interest included) for compound interest
+ */
+export function getInterest(account: SavingsAccount, kind: InterestKind): number {
+  const base = kind === 'simple' ? account.principal : account.balance;
+  return Math.floor((base * INTEREST_RATE_PERCENT) / 100);
+}
+
+export function depositSavings(account: SavingsAccount, amount: number): SavingsAccount {
+  return {
+    ...account,
+    balance: account.balance + amount,
+    principal: account.principal + amount,
+  };
+}
+
+/**
+ * Take coins out; interest is spent before deposits, so simple interest keeps paying on what is left
+ */
+export function withdrawSavings(account: SavingsAccount, amount: number): SavingsAccount {
+  const balance = Math.max(0, account.balance - amount);
+  return { ...account, balance, principal: Math.min(account.principal, balance) };
+}
+
+/**
+ * Pay a completed map's interest into the account
+ */
+export function addInterest(
+  account: SavingsAccount,
+  kind: InterestKind
+): { account: SavingsAccount; interest: number } {
+  const interest = getInterest(account, kind);
+  return { account: { ...account, balance: account.balance + interest }, interest };
+}
+
+/**
+ * Balance after each of the next `maps` completed maps, with no deposits or withdrawals
+ */
+export function projectSavings(
+  account: SavingsAccount,
+  kind: InterestKind,
+  maps: number
+): number[] {
+  const balances: number[] = [];
+  let projected = account;
+  for (let map = 0; map < maps; map++) {
+    projected = addInterest(projected, kind).account;
+    balances.push(projected.balance);
+  }
+  return balances;
+}
+
+/**
+ * Completed maps until interest alone grows the balance to `target`: 0 if it is already there,
+ * null if it would take more than MAX_PROJECTED_MAPS (or never happen)
+ */
+export function getMapsUntilBalance(
+  account: SavingsAccount,
+  kind: InterestKind,
+  target: number
+): number | null {
+  if (account.balance >= target) {
+    return 0;
+  }
+  const index = projectSavings(account, kind, MAX_PROJECTED_MAPS).findIndex(
+    (balance) => balance >= target
+  );
+  return index === -1 ? null : index + 1;
+}
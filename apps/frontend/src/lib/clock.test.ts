@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { calculateClockAnswer, formatTime, fromClockMinutes, parseTime } from './clock';
+
+describe('calculateClockAnswer', () => {
+  it('reads a clock as the time written in minutes', () => {
+    expect(calculateClockAnswer('clock-reading', { start: { hours: 3, minutes: 45 } })).toBe(225);
+    expect(calculateClockAnswer('clock-reading', { start: { hours: 12, minutes: 5 } })).toBe(725);
+  });
+
+  it('counts elapsed time forwards from the start clock', () => {
+    const clock = { start: { hours: 3, minutes: 45 }, end: { hours: 5, minutes: 10 } };
+    expect(calculateClockAnswer('elapsed-time', clock)).toBe(85);
+  });
+
+  it("counts on past 12 o'clock", () => {
+    const clock = { start: { hours: 11, minutes: 30 }, end: { hours: 1, minutes: 15 } };
+    expect(calculateClockAnswer('elapsed-time', clock)).toBe(105);
+  });
+
+  it('needs an end time for elapsed time', () => {
+    expect(() =>
+      calculateClockAnswer('elapsed-time', { start: { hours: 1, minutes: 0 } })
+    ).toThrow();
+  });
+});
+
+describe('fromClockMinutes', () => {
+  it('wraps around the clock face with hours from 1 to 12', () => {
+    expect(fromClockMinutes(30)).toEqual({ hours: 12, minutes: 30 });
+    expect(fromClockMinutes(13 * 60 + 5)).toEqual({ hours: 1, minutes: 5 });
+    expect(fromClockMinutes(-15)).toEqual({ hours: 11, minutes: 45 });
+  });
+});
+
+describe('formatTime and parseTime', () => {
+  it('write minutes with two digits', () => {
+    expect(formatTime(3, 5)).toBe('3:05');
+    expect(formatTime(1, 30)).toBe('1:30');
+  });
+
+  it('read times back as minutes', () => {
+    expect(parseTime('3:45')).toBe(225);
+    expect(parseTime('3')).toBe(180);
+    expect(parseTime(' 1:30 ')).toBe(90);
+  });
+
+  it('reject minutes that are not two digits below 60', () => {
+    for (const input of ['3:5', '3:60', '3:', ':45', '123:00', 'three']) {
+      expect(parseTime(input), input).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import type { ClockFaces, ClockTime, MathOperation } from './types';
+
+// Problems read from analog clocks; their answers are hours and minutes, counted in minutes
+export type ClockOperation = Extract<MathOperation, 'clock-reading' | 'elapsed-time'>;
+
+// The hour hand goes round once every 12 hours
+const MINUTES_PER_TURN = 12 * 60;
+
+export function isClockOperation(operation: MathOperation): operation is ClockOperation {
+  return operation === 'clock-reading' || operation === 'elapsed-time';
+}
+
+/**
+ * Minutes since 12 o'clock for a time on the clock face, so 12:30 is 30
+ */
+export function toClockMinutes(hours: number, minutes: number): number {
+  return (hours % 12) * 60 + minutes;
+}
+
+/**
+ * The time on the clock face a number of minutes after 12 o'clock, with hours from 1 to 12
+ */
+export function fromClockMinutes(total: number): ClockTime {
+  const onFace = ((total % MINUTES_PER_TURN) + MINUTES_PER_TURN) % MINUTES_PER_TURN;
+  return { hours: Math.floor(onFace / 60) || 12, minutes: onFace % 60 };
+}
+
+/**
+ * Write hours and minutes the way a digital clock does: 3:05, or 1:30 for an hour and a half
+ */
+export function formatTime(hours: number, minutes: number): string {
+  return `${hours}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Answer to a clock problem in minutes. Reading a clock gives the time as written (3:45 is 225),
+ * elapsed time counts forwards from the start clock to the end clock.
+ */
+export function calculateClockAnswer(operation: ClockOperation, clock: ClockFaces): number {
+  const { start, end } = clock;
+  if (operation === 'clock-reading') {
+    return start.hours * 60 + start.minutes;
+  }
+  if (!end) {
+    throw new Error('Elapsed-time challenges need an end time');
+  }
+  const elapsed =
+    toClockMinutes(end.hours, end.minutes) - toClockMinutes(start.hours, start.minutes);
+  return ((elapsed % MINUTES_PER_TURN) + MINUTES_PER_TURN) % MINUTES_PER_TURN;
+}
+
+/**
+ * Parse a typed time ("3:45", or "3" for 3 o'clock) into minutes.
+ * Returns null unless the minutes are written with two digits below 60.
+ */
+export function parseTime(input: string): number | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?$/.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[2] ?? '0');
+  return minutes < 60 ? Number(match[1]) * 60 + minutes : null;
+}
@@ -0,0 +1,118 @@
+import type { ArithmeticOperation, Expression } from './types';
+
+// Symbols shown to the player for each operator
+export const OPERATOR_SYMBOLS: Record<ArithmeticOperation, string> = {
+  addition: '+',
+  subtraction: '-',
+  multiplication: '×',
+  division: '÷',
+};
+
+// Multiplication and division bind tighter than addition and subtraction
+const precedence: Record<ArithmeticOperation, number> = {
+  addition: 1,
+  subtraction: 1,
+  multiplication: 2,
+  division: 2,
+};
+
+/**
+ * Create a number leaf
+ */
+export function numberNode(value: number): Expression {
+  return { kind: 'number', value };
+}
+
+/**
+ * Create an operator node joining two sub-expressions
+ */
+export function operationNode(operation: ArithmeticOperation, left: Expression, right: Expression): Expression {
+  return { kind: 'operation', operation, left, right };
+}
+
+/**
+ * Apply a single operator to two numbers
+ */
+export function applyOperation(operation: ArithmeticOperation, a: number, b: number): number {
+  switch (operation) {
+    case 'addition':
+      return a + b;
+    case 'subtraction':
+      return a - b;
+    case 'multiplication':
+      return a * b;
+    case 'division':
+      return a / b;
+  }
+}
+
+/**
+ * Evaluate an expression tree; the tree's shape already encodes precedence and parentheses
+ */
+export function evaluateExpression(expression: Expression): number {
+  if (expression.kind === 'number') {
+    return expression.value;
+  }
+  return applyOperation(
+    expression.operation,
+    evaluateExpression(expression.left),
+    evaluateExpression(expression.right)
+  );
+}
+
+/**
+ * Numbers appearing in an expression, left to right
+ */
+export function getExpressionOperands(expression: Expression): number[] {
+  if (expression.kind === 'number') {
+    return [expression.value];
+  }
+  return [...getExpressionOperands(expression.left), ...getExpressionOperands(expression.right)];
+}
+
+/**
+ * Operators used anywhere in an expression
+ */
+export function getExpressionOperations(expression: Expression): ArithmeticOperation[] {
+  if (expression.kind === 'number') {
+    return [];
+  }
+  return [
+    ...getExpressionOperations(expression.left),
+    expression.operation,
+    ...getExpressionOperations(expression.right),
+  ];
+}
+
+/**
+ * Render an expression with only the parentheses that change its meaning, e.g. "(3 + 4) × 5 - 2"
+ */
+export function formatExpression(expression: Expression): string {
+  if (expression.kind === 'number') {
+    return `${expression.value}`;
+  }
+
+  const left = formatExpression(expression.left);
+  const right = formatExpression(expression.right);
+  return [
+    needsParentheses(expression.left, expression.operation, 'left') ? `(${left})` : left,
+    OPERATOR_SYMBOLS[expression.operation],
+    needsParentheses(expression.right, expression.operation, 'right') ? `(${right})` : right,
+  ].join(' ');
+}
+
+/**
+ * A child needs parentheses when it binds looser than its parent, or when it sits on the right
+ * of a non-associative operator at the same level (8 - (3 - 1), 24 ÷ (4 × 2))
+ */
+function needsParentheses(child: Expression, parent: ArithmeticOperation, side: 'left' | 'right'): boolean {
+  if (child.kind === 'number') {
+    return false;
+  }
+
+  if (precedence[child.operation] !== precedence[parent]) {
+    return precedence[child.operation] < precedence[parent];
+  }
+
+  return side === 'right' && (parent === 'subtraction' || parent === 'division');
+}
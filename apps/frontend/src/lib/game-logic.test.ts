@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { generateTileMap } from './game-logic';
+import type { DifficultyLevel, KeyColor, Position, TileMap } from './types';
+import { MazeAlgorithm } from './types';
+
+const MAP_SIZE = 16;
+const LOCKED_DIFFICULTIES: DifficultyLevel[] = ['beginner', 'medium', 'expert'];
+
+const toKey = (position: Position) => `${position.x},${position.y}`;
+
+/**
+ * Tiles the player can walk to from the start, going through only the doors they hold keys for
+ */
+function explore(map: TileMap, keys: Set<KeyColor>): Set<string> {
+  const reached = new Set([toKey(map.startPosition)]);
+  const queue = [map.startPosition];
+  for (let position = queue.shift(); position; position = queue.shift()) {
+    const neighbours = [
+      { x: position.x + 1, y: position.y },
+      { x: position.x - 1, y: position.y },
+      { x: position.x, y: position.y + 1 },
+      { x: position.x, y: position.y - 1 },
+    ];
+    for (const next of neighbours) {
+      const tile = map.tiles[next.y]?.[next.x];
+      if (!tile || tile.type === 'blocked' || reached.has(toKey(next))) continue;
+      if (tile.type === 'door' && !(tile.keyColor && keys.has(tile.keyColor))) continue;
+      reached.add(toKey(next));
+      queue.push(next);
+    }
+  }
+  return reached;
+}
+
+/**
+ * Walk the map the way a player would: pick up every key in reach, then see how far the doors
+ * they open lead, until the boss is reached or no new key turns up
+ */
+function canReachBoss(map: TileMap): boolean {
+  const keys = new Set<KeyColor>();
+  for (;;) {
+    const reached = explore(map, keys);
+    if (reached.has(toKey(map.bossPosition))) return true;
+
+    const found = map.tiles
+      .flat()
+      .filter((tile) => tile.type === 'key' && tile.keyColor && !keys.has(tile.keyColor))
+      .filter((tile) => reached.has(toKey(tile.position)));
+    if (found.length === 0) return false;
+    found.forEach((tile) => keys.add(tile.keyColor!));
+  }
+}
+
+describe('generateTileMap', () => {
+  it('reproduces the same map, mobs and challenges from the same seed', () => {
+    for (const mazeAlgorithm of MazeAlgorithm.options) {
+      const first = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'hard', {
+        seed: 42,
+        mazeAlgorithm,
+      });
+      const second = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'hard', {
+        seed: 42,
+        mazeAlgorithm,
+      });
+      expect(second).toEqual(first);
+    }
+  });
+
+  it('stores the seed it picked so the map can be regenerated', () => {
+    const map = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'easy');
+    expect(map.seed).toBeDefined();
+    expect(generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'easy', { seed: map.seed })).toEqual(map);
+  });
+
+  it('gives different seeds different maps', () => {
+    const first = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'medium', { seed: 1 });
+    const second = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'medium', { seed: 2 });
+    expect(second.tiles).not.toEqual(first.tiles);
+  });
+
+  it('places a key before every locked door so the boss can always be reached', () => {
+    for (const difficulty of LOCKED_DIFFICULTIES) {
+      for (const mazeAlgorithm of MazeAlgorithm.options) {
+        for (let seed = 1; seed <= 10; seed++) {
+          const map = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, difficulty, {
+            seed,
+            mazeAlgorithm,
+          });
+          const doors = map.tiles.flat().filter((tile) => tile.type === 'door');
+          expect(doors.length, `${difficulty} ${mazeAlgorithm} seed ${seed}`).toBeGreaterThan(0);
+          expect(canReachBoss(map), `${difficulty} ${mazeAlgorithm} seed ${seed}`).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('keeps the boss behind its doors until their keys are picked up', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const map = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'expert', { seed });
+      expect(explore(map, new Set()).has(toKey(map.bossPosition))).toBe(false);
+    }
+  });
+
+  it('hides unopened chests with a challenge and loot in dead ends', () => {
+    let chestCount = 0;
+    for (let seed = 1; seed <= 10; seed++) {
+      const map = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'easy', { seed });
+      const chests = map.tiles.flat().filter((tile) => tile.type === 'chest');
+      chestCount += chests.length;
+      for (const chest of chests) {
+        const { x, y } = chest.position;
+        const openNeighbours = [
+          map.tiles[y]?.[x + 1],
+          map.tiles[y]?.[x - 1],
+          map.tiles[y + 1]?.[x],
+          map.tiles[y - 1]?.[x],
+        ].filter((tile) => tile && tile.type !== 'blocked');
+        expect(openNeighbours, `seed ${seed}`).toHaveLength(1);
+        expect(chest.challenge).toBeDefined();
+        expect(chest.loot?.amount).toBeGreaterThan(0);
+        expect(chest.isCollected).toBe(false);
+      }
+    }
+    expect(chestCount).toBeGreaterThan(0);
+  });
+
+  it('never divides by zero when tuning lowers division to the youngest ranges', () => {
+    const tuning = { operationWeights: { division: 100 }, operandLevelShift: { division: -1 } };
+    for (let seed = 1; seed <= 30; seed++) {
+      const map = generateTileMap('map-1', MAP_SIZE, MAP_SIZE, 'beginner', { seed, tuning });
+      const divisions = map.mobs
+        .map((mob) => mob.challenge)
+        .filter((challenge) => challenge.operation === 'division');
+      expect(divisions.length).toBeGreaterThan(0);
+      for (const challenge of divisions) {
+        expect(challenge.operands[1], `seed ${seed}`).toBeGreaterThan(0);
+        expect(Number.isNaN(challenge.correctAnswer), `seed ${seed}`).toBe(false);
+      }
+    }
+  });
+});
@@ -5,22 +5,381 @@ import type {
   MathChallenge,
   DifficultyLevel,
   MathOperation,
+  ArithmeticOperation,
+  Expression,
   TileType,
   Mob,
+  MazeAlgorithm,
+  KeyColor,
+  ChestLoot,
+  ChallengeTuning,
+  SequencePattern,
+  ClockFaces,
 } from './types';
-import { generateOperands, calculateAnswer, randomInt } from './utils';
+import {
+  generateOperands,
+  calculateAnswer,
+  calculateExactAnswer,
+  getAnswerFormat,
+  randomInt,
+  shuffle,
+  createSeed,
+  createSeededRandom,
+} from './utils';
+import type { RandomSource } from './utils';
+import { connectMaze, findDeadEnds, getMazeGenerator, placeLocks } from './maze';
+import type { MazeGrid } from './maze';
+import { rationalToNumber } from './rational';
+import { BILL_VALUES, COIN_VALUES, makeChange } from './money';
+import { calculateClockAnswer, fromClockMinutes, isClockOperation, toClockMinutes } from './clock';
+import type { ClockOperation } from './clock';
+import {
+  evaluateExpression,
+  getExpressionOperands,
+  getExpressionOperations,
+  numberNode,
+  operationNode,
+} from './expression';
 
 const difficultyProgression: DifficultyLevel[] = ['infant', 'toddler', 'beginner', 'easy', 'medium', 'hard', 'expert'];
 
+// Younger players get open, forgiving layouts; older players get proper mazes
+const mazeAlgorithmsByDifficulty: Record<DifficultyLevel, MazeAlgorithm[]> = {
+  infant: ['rooms'],
+  toddler: ['rooms', 'caves'],
+  beginner: ['rooms', 'caves', 'prim'],
+  easy: ['prim', 'kruskal', 'caves'],
+  medium: ['backtracker', 'prim', 'kruskal', 'rooms'],
+  hard: ['backtracker', 'kruskal', 'caves'],
+  expert: ['backtracker', 'kruskal'],
+};
+
+// Number of colored door/key pairs guarding the route to the boss
+const lockCountByDifficulty: Record<DifficultyLevel, number> = {
+  infant: 0,
+  toddler: 0,
+  beginner: 1,
+  easy: 1,
+  medium: 2,
+  hard: 2,
+  expert: 3,
+};
+
+// Treasure chests tucked into dead ends
+const chestCountByDifficulty: Record<DifficultyLevel, number> = {
+  infant: 1,
+  toddler: 2,
+  beginner: 2,
+  easy: 3,
+  medium: 3,
+  hard: 4,
+  expert: 4,
+};
+
+interface LootTableEntry {
+  loot: ChestLoot;
+  weight: number;
+}
+
+// What a chest can hold at each difficulty; coin amounts track the challenge rewards,
+// and the rarer finds are shop items
+const chestLootTables: Record<DifficultyLevel, LootTableEntry[]> = {
+  infant: [
+    { loot: { kind: 'coins', amount: 10 }, weight: 4 },
+    { loot: { kind: 'coins', amount: 25 }, weight: 2 },
+    { loot: { kind: 'coinMultiplierCharges', amount: 1 }, weight: 1 },
+    { loot: { kind: 'hints', amount: 1 }, weight: 1 },
+  ],
+  toddler: [
+    { loot: { kind: 'coins', amount: 15 }, weight: 4 },
+    { loot: { kind: 'coins', amount: 40 }, weight: 2 },
+    { loot: { kind: 'coinMultiplierCharges', amount: 1 }, weight: 1 },
+    { loot: { kind: 'hints', amount: 2 }, weight: 1 },
+  ],
+  beginner: [
+    { loot: { kind: 'coins', amount: 20 }, weight: 4 },
+    { loot: { kind: 'coins', amount: 50 }, weight: 2 },
+    { loot: { kind: 'coinMultiplierCharges', amount: 2 }, weight: 1 },
+    { loot: { kind: 'streakBoosts', amount: 1 }, weight: 1 },
+  ],
+  easy: [
+    { loot: { kind: 'coins', amount: 30 }, weight: 4 },
+    { loot: { kind: 'coins', amount: 75 }, weight: 2 },
+    { loot: { kind: 'coinMultiplierCharges', amount: 2 }, weight: 2 },
+    { loot: { kind: 'hints', amount: 3 }, weight: 1 },
+  ],
+  medium: [
+    { loot: { kind: 'coins', amount: 50 }, weight: 4 },
+    { loot: { kind: 'coins', amount: 125 }, weight: 2 },
+    { loot: { kind: 'coinMultiplierCharges', amount: 3 }, weight: 2 },
+    { loot: { kind: 'streakBoosts', amount: 1 }, weight: 1 },
+  ],
+  hard: [
+    { loot: { kind: 'coins', amount: 80 }, weight: 4 },
+    { loot: { kind: 'coins', amount: 200 }, weight: 2 },
+    { loot: { kind: 'coinMultiplierCharges', amount: 3 }, weight: 2 },
+    { loot: { kind: 'challengeSkips', amount: 1 }, weight: 1 },
+  ],
+  expert: [
+    { loot: { kind: 'coins', amount: 120 }, weight: 4 },
+    { loot: { kind: 'coins', amount: 300 }, weight: 2 },
+    { loot: { kind: 'coinMultiplierCharges', amount: 5 }, weight: 2 },
+    { loot: { kind: 'challengeSkips', amount: 1 }, weight: 1 },
+  ],
+};
+
+// Older players have to explore instead of solving the maze by eye
+const fogOfWarByDifficulty: Record<DifficultyLevel, boolean> = {
+  infant: false,
+  toddler: false,
+  beginner: false,
+  easy: false,
+  medium: false,
+  hard: true,
+  expert: true,
+};
+
+// Relative share of each operation in the problem mix. Clocks and number patterns join at toddler,
+// money at beginner (grades 1-3), fractions and decimals at medium (grades 4-5), elapsed time at hard
+const operationWeightsByDifficulty: Record<DifficultyLevel, Partial<Record<MathOperation, number>>> = {
+  infant: { addition: 1 },
+  toddler: { addition: 1, 'clock-reading': 0.3, 'number-pattern': 0.3 },
+  beginner: {
+    addition: 1,
+    subtraction: 1,
+    multiplication: 1,
+    division: 1,
+    'money-counting': 0.5,
+    'clock-reading': 0.4,
+    'number-pattern': 0.4,
+  },
+  easy: {
+    addition: 1,
+    subtraction: 1,
+    multiplication: 1,
+    division: 1,
+    'money-counting': 0.6,
+    'clock-reading': 0.4,
+    'number-pattern': 0.5,
+  },
+  medium: {
+    addition: 1,
+    subtraction: 1,
+    multiplication: 1,
+    division: 1,
+    'money-counting': 0.5,
+    'clock-reading': 0.4,
+    'number-pattern': 0.5,
+    'fraction-addition': 0.4,
+    'fraction-subtraction': 0.3,
+    'fraction-simplification': 0.3,
+    'decimal-addition': 0.4,
+    'decimal-subtraction': 0.3,
+  },
+  hard: {
+    addition: 1,
+    subtraction: 1,
+    multiplication: 1,
+    division: 1,
+    'order-of-operations': 1,
+    'money-counting': 0.3,
+    'clock-reading': 0.3,
+    'elapsed-time': 0.4,
+    'number-pattern': 0.5,
+    'fraction-addition': 0.5,
+    'fraction-subtraction': 0.5,
+    'fraction-simplification': 0.3,
+    'decimal-addition': 0.4,
+    'decimal-subtraction': 0.4,
+  },
+  expert: {
+    addition: 1,
+    subtraction: 1,
+    multiplication: 1,
+    division: 1,
+    'order-of-operations': 1.5,
+    'money-counting': 0.3,
+    'clock-reading': 0.2,
+    'elapsed-time': 0.5,
+    'number-pattern': 0.6,
+    'fraction-addition': 0.5,
+    'fraction-subtraction': 0.5,
+    'fraction-simplification': 0.3,
+    'decimal-addition': 0.4,
+    'decimal-subtraction': 0.4,
+  },
+};
+
+// Share of addition/subtraction problems that chain three numbers (5 + 3 + 8)
+const chainedOperandChance: Record<DifficultyLevel, number> = {
+  infant: 0,
+  toddler: 0,
+  beginner: 0,
+  easy: 0,
+  medium: 0.1,
+  hard: 0.25,
+  expert: 0.25,
+};
+
+interface ExpressionLimits {
+  // How many numbers an order-of-operations problem uses
+  operandCounts: number[];
+  // Largest number written in the problem (divisions excepted)
+  operandMax: number;
+  // Largest factor or divisor, keeping products within the times tables
+  factorMax: number;
+  // Largest value any step of the working may reach
+  valueMax: number;
+}
+
+// Order-of-operations problems only appear at hard and expert, but the boss can reach one level up
+const expressionLimits: Record<DifficultyLevel, ExpressionLimits> = {
+  infant: { operandCounts: [3], operandMax: 5, factorMax: 3, valueMax: 20 },
+  toddler: { operandCounts: [3], operandMax: 9, factorMax: 3, valueMax: 30 },
+  beginner: { operandCounts: [3], operandMax: 10, factorMax: 5, valueMax: 50 },
+  easy: { operandCounts: [3], operandMax: 10, factorMax: 10, valueMax: 100 },
+  medium: { operandCounts: [3], operandMax: 20, factorMax: 10, valueMax: 100 },
+  hard: { operandCounts: [3], operandMax: 20, factorMax: 10, valueMax: 100 },
+  expert: { operandCounts: [3, 4], operandMax: 30, factorMax: 12, valueMax: 150 },
+};
+
+interface MoneyLimits {
+  // Coins and bills that turn up, in cents
+  values: number[];
+  // Fewest and most pieces in a pile to count
+  pieceCounts: [number, number];
+  // Share of problems that ask for a price to be paid instead of a pile to be counted
+  payChance: number;
+  // Highest price to pay, in cents
+  priceMax: number;
+}
+
+// Money problems start at beginner, but tuning can reach a level below and the boss one above
+const moneyLimits: Record<DifficultyLevel, MoneyLimits> = {
+  infant: { values: [1, 5], pieceCounts: [2, 3], payChance: 0, priceMax: 10 },
+  toddler: { values: [1, 5, 10], pieceCounts: [2, 3], payChance: 0, priceMax: 20 },
+  beginner: { values: [1, 5, 10], pieceCounts: [2, 4], payChance: 0.3, priceMax: 30 },
+  easy: { values: COIN_VALUES, pieceCounts: [3, 5], payChance: 0.4, priceMax: 99 },
+  medium: { values: [...COIN_VALUES, 100], pieceCounts: [3, 6], payChance: 0.5, priceMax: 300 },
+  hard: { values: [...COIN_VALUES, 100, 500], pieceCounts: [4, 7], payChance: 0.5, priceMax: 999 },
+  expert: { values: [...COIN_VALUES, ...BILL_VALUES], pieceCounts: [5, 8], payChance: 0.5, priceMax: 2000 },
+};
+
+interface ClockLimits {
+  // Minutes between the times a clock shows: 60 for whole hours, 30 for half hours, and so on
+  minuteStep: number;
+  // Longest time between two clocks, in minutes
+  elapsedMax: number;
+}
+
+// Elapsed time starts at hard, but tuning can reach it a level below
+const clockLimits: Record<DifficultyLevel, ClockLimits> = {
+  infant: { minuteStep: 60, elapsedMax: 180 },
+  toddler: { minuteStep: 60, elapsedMax: 180 },
+  beginner: { minuteStep: 30, elapsedMax: 180 },
+  easy: { minuteStep: 15, elapsedMax: 120 },
+  medium: { minuteStep: 5, elapsedMax: 120 },
+  hard: { minuteStep: 5, elapsedMax: 180 },
+  expert: { minuteStep: 1, elapsedMax: 300 },
+};
+
+interface PatternLimits {
+  // Rules that come up, with their relative weights
+  patterns: Partial<Record<SequencePattern, number>>;
+  // Steps to skip count in, always starting from a multiple of the step
+  skipSteps: number[];
+  // Largest step, and largest start, of an arithmetic pattern
+  stepMax: number;
+  // Whether arithmetic patterns can count down
+  countsDown: boolean;
+  // Numbers shown before the one to find
+  termCount: number;
+}
+
+// Counting on comes first, then any step, doubling from medium and growing gaps at expert.
+// Tuning can reach a level below where patterns start.
+const patternLimits: Record<DifficultyLevel, PatternLimits> = {
+  infant: {
+    patterns: { 'skip-counting': 1 },
+    skipSteps: [1],
+    stepMax: 1,
+    countsDown: false,
+    termCount: 3,
+  },
+  toddler: {
+    patterns: { 'skip-counting': 1 },
+    skipSteps: [1, 2],
+    stepMax: 2,
+    countsDown: false,
+    termCount: 3,
+  },
+  beginner: {
+    patterns: { 'skip-counting': 1 },
+    skipSteps: [2, 5, 10],
+    stepMax: 5,
+    countsDown: false,
+    termCount: 4,
+  },
+  easy: {
+    patterns: { 'skip-counting': 1, arithmetic: 1 },
+    skipSteps: [2, 3, 4, 5, 10],
+    stepMax: 9,
+    countsDown: false,
+    termCount: 4,
+  },
+  medium: {
+    patterns: { 'skip-counting': 0.5, arithmetic: 1, doubling: 0.5 },
+    skipSteps: [3, 4, 6, 7, 8, 9],
+    stepMax: 12,
+    countsDown: true,
+    termCount: 4,
+  },
+  hard: {
+    patterns: { arithmetic: 1, doubling: 0.7 },
+    skipSteps: [6, 7, 8, 9, 11, 12],
+    stepMax: 25,
+    countsDown: true,
+    termCount: 4,
+  },
+  expert: {
+    patterns: { arithmetic: 1, doubling: 0.7, quadratic: 1 },
+    skipSteps: [11, 12, 15, 20, 25],
+    stepMax: 50,
+    countsDown: true,
+    termCount: 5,
+  },
+};
+
+// How far around the player the fog lifts, in tiles
+export const FOG_REVEAL_RADIUS = 2;
+
+export interface TileMapOptions {
+  // Seed for the map's PRNG; omit to pick a fresh one (stored on the map either way)
+  seed?: number;
+  // Force a specific maze algorithm instead of picking one for the difficulty
+  mazeAlgorithm?: MazeAlgorithm;
+  // Override the difficulty's fog-of-war default
+  fogOfWar?: boolean;
+  // Player-specific challenge mix from the adaptive engine
+  tuning?: ChallengeTuning;
+}
+
 /**
- * Generate a new tile map with procedural placement of challenges and boss
+ * Generate a new tile map with procedural placement of challenges and boss.
+ * All randomness flows from the map seed, so the same seed reproduces the same map.
  */
 export function generateTileMap(
   mapId: string,
   width: number,
   height: number,
-  difficulty: DifficultyLevel
+  difficulty: DifficultyLevel,
+  options: TileMapOptions = {}
 ): TileMap {
+  const seed = options.seed ?? createSeed();
+  const random = createSeededRandom(seed);
+  const mazeAlgorithm = options.mazeAlgorithm ?? pickMazeAlgorithm(difficulty, random);
+  const { tuning } = options;
+
   // Create empty grid
   const tiles: Tile[][] = Array(height)
     .fill(null)
@@ -42,7 +401,14 @@ export function generateTileMap(
   const bossPosition: Position = { x: width - 1, y: 0 };
 
   // Generate maze paths
-  const mazePaths = generateMazePaths(width, height, startPosition, bossPosition);
+  const { paths: mazePaths, deadEnds } = generateMazePaths(
+    width,
+    height,
+    startPosition,
+    bossPosition,
+    mazeAlgorithm,
+    random
+  );
   
   // Apply maze to tiles
   for (let y = 0; y < height; y++) {
@@ -57,13 +423,54 @@ export function generateTileMap(
   // Place boss at the end position with a boss challenge
   tiles[bossPosition.y][bossPosition.x].type = 'boss';
   tiles[bossPosition.y][bossPosition.x].isAccessible = true;
-  tiles[bossPosition.y][bossPosition.x].bossChallenge = generateBossChallenge(difficulty);
+  tiles[bossPosition.y][bossPosition.x].bossChallenge = generateBossChallenge(difficulty, random, tuning);
   tiles[bossPosition.y][bossPosition.x].isBossDefeated = false;
 
+  // Guard the route with locked doors whose keys must be earned first
+  const locks = placeLocks(mazePaths, startPosition, bossPosition, lockCountByDifficulty[difficulty], random);
+  const lockPositions: Position[] = [];
+  for (const lock of locks) {
+    const door = tiles[lock.door.y][lock.door.x];
+    door.type = 'door';
+    door.keyColor = lock.color;
+    door.isAccessible = false;
+
+    const key = tiles[lock.key.y][lock.key.x];
+    key.type = 'key';
+    key.keyColor = lock.color;
+    key.challenge = generateRegularChallenge(difficulty, random, tuning);
+    key.isCollected = false;
+
+    lockPositions.push(lock.door, lock.key);
+  }
+
+  // Reward exploring side passages with treasure chests in the dead ends
+  const chestPositions = shuffle(
+    deadEnds.filter((deadEnd) => !lockPositions.some((taken) => taken.x === deadEnd.x && taken.y === deadEnd.y)),
+    random
+  ).slice(0, chestCountByDifficulty[difficulty]);
+  for (const position of chestPositions) {
+    const chest = tiles[position.y][position.x];
+    chest.type = 'chest';
+    chest.challenge = generateRegularChallenge(difficulty, random, tuning);
+    chest.loot = rollChestLoot(difficulty, random);
+    chest.isCollected = false;
+  }
+
   // Generate 10 wandering mobs with challenges
-  const mobs = generateMobs(10, width, height, difficulty, startPosition, bossPosition, mazePaths);
+  const mobs = generateMobs(
+    mapId,
+    10,
+    width,
+    height,
+    difficulty,
+    [startPosition, bossPosition, ...lockPositions, ...chestPositions],
+    mazePaths,
+    random,
+    tuning
+  );
 
-  return {
+  const map: TileMap = {
     id: mapId,
     width,
     height,
@@ -72,49 +479,59 @@ export function generateTileMap(
     bossPosition,
     startPosition,
     mobs,
+    heldKeys: [],
+    shopPurchases: {},
+    fogOfWar: options.fogOfWar ?? fogOfWarByDifficulty[difficulty],
     isCompleted: false,
+    seed,
+    mazeAlgorithm,
+    tuning,
   };
+
+  revealAround(map, startPosition);
+
+  return map;
 }
 
 /**
  * Generate wandering mobs with challenges
  */
 function generateMobs(
+  mapId: string,
   count: number,
   width: number,
   height: number,
   difficulty: DifficultyLevel,
-  startPosition: Position,
-  bossPosition: Position,
-  mazePaths: boolean[][]
+  reservedPositions: Position[],
+  mazePaths: boolean[][],
+  random: RandomSource,
+  tuning?: ChallengeTuning
 ): Mob[] {
   const mobs: Mob[] = [];
 
-  // Get all accessible positions (excluding start and boss)
+  // Get all accessible positions (excluding start, boss, doors and keys)
   const accessiblePositions: Position[] = [];
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      if (mazePaths[y][x] && 
-          !(x === startPosition.x && y === startPosition.y) &&
-          !(x === bossPosition.x && y === bossPosition.y)) {
+      if (mazePaths[y][x] && !reservedPositions.some((reserved) => reserved.x === x && reserved.y === y)) {
         accessiblePositions.push({ x, y });
       }
     }
   }
 
   // Randomly select positions for mobs
-  const shuffledPositions = accessiblePositions.sort(() => Math.random() - 0.5);
+  const shuffledPositions = shuffle(accessiblePositions, random);
   
   // Map sprite frames to mob types
   const mobTypes: ('slime' | 'skeleton' | 'orc' | 'bat')[] = ['slime', 'skeleton', 'orc', 'bat'];
   
   for (let i = 0; i < Math.min(count, shuffledPositions.length); i++) {
     const pos = shuffledPositions[i];
-    const spriteFrame = randomInt(0, 3); // Random sprite frame (0-3)
+    const spriteFrame = randomInt(0, 3, random); // Random sprite frame (0-3)
     mobs.push({
-      id: `mob-${Date.now()}-${i}-${randomInt(1000, 9999)}`,
+      id: `${mapId}-mob-${i}`,
       position: { ...pos },
-      challenge: generateRegularChallenge(difficulty),
+      challenge: generateRegularChallenge(difficulty, random, tuning),
       spriteFrame,
       type: mobTypes[spriteFrame], // Map frame to type: 0=slime, 1=skeleton, 2=orc, 3=bat
       isCompleted: false,
@@ -125,24 +542,27 @@ function generateMobs(
 }
 
 /**
- * Generate a regular math challenge
+ * Generate a regular math challenge from the difficulty's operation mix.
+ * Tuning can reweight the mix and pick an operation's numbers from a neighbouring level.
  */
-function generateRegularChallenge(difficulty: DifficultyLevel): MathChallenge {
-  const allowedOperationsByDifficulty: Record<DifficultyLevel, MathOperation[]> = {
-    infant: ['addition'],
-    toddler: ['addition'],
-    beginner: ['addition', 'subtraction', 'multiplication', 'division'],
-    easy: ['addition', 'subtraction', 'multiplication', 'division'],
-    medium: ['addition', 'subtraction', 'multiplication', 'division'],
-    hard: ['addition', 'subtraction', 'multiplication', 'division'],
-    expert: ['addition', 'subtraction', 'multiplication', 'division'],
-  };
-
-  const operations = allowedOperationsByDifficulty[difficulty];
-  const operation = operations[randomInt(0, operations.length - 1)];
-  const operands = generateOperands(operation, difficulty);
-  const correctAnswer = calculateAnswer(operation, operands);
+function generateRegularChallenge(
+  difficulty: DifficultyLevel,
+  random: RandomSource,
+  tuning?: ChallengeTuning
+): MathChallenge {
+  const operation = pickOperation(difficulty, random, tuning);
+  const level = shiftDifficulty(difficulty, tuning?.operandLevelShift[operation] ?? 0);
+  return generateChallenge(operation, level, random);
+}
 
+/**
+ * Generate a challenge for a specific operation at a difficulty
+ */
+function generateChallenge(
+  operation: MathOperation,
+  difficulty: DifficultyLevel,
+  random: RandomSource
+): MathChallenge {
   const rewardMultipliers: Record<DifficultyLevel, number> = {
     infant: 5,
     toddler: 8,
@@ -153,189 +573,520 @@ function generateRegularChallenge(difficulty: DifficultyLevel): MathChallenge {
     expert: 60,
   };
 
+  if (operation === 'order-of-operations') {
+    const expression = generateExpression(difficulty, random);
+    const operands = getExpressionOperands(expression);
+    return {
+      id: `challenge-${randomId(random)}`,
+      operation,
+      operands,
+      expression,
+      correctAnswer: evaluateExpression(expression),
+      difficulty,
+      // One reward per operator to work through
+      reward: rewardMultipliers[difficulty] * (operands.length - 1),
+    };
+  }
+
+  if (operation === 'money-counting') {
+    const { moneyTask, operands } = generateMoney(difficulty, random);
+    return {
+      id: `challenge-${randomId(random)}`,
+      operation,
+      operands,
+      moneyTask,
+      correctAnswer: calculateAnswer(operation, operands),
+      difficulty,
+      // One reward for every two coins or bills to handle
+      reward: rewardMultipliers[difficulty] * Math.ceil(operands.length / 2),
+    };
+  }
+
+  if (isClockOperation(operation)) {
+    const clock = generateClockTimes(operation, difficulty, random);
+    return {
+      id: `challenge-${randomId(random)}`,
+      operation,
+      operands: [],
+      clock,
+      correctAnswer: calculateClockAnswer(operation, clock),
+      difficulty,
+      // Elapsed time means reading two clocks and working out the gap
+      reward: rewardMultipliers[difficulty] * (clock.end ? 2 : 1),
+    };
+  }
+
+  if (operation === 'number-pattern') {
+    const { pattern, operands } = generatePattern(difficulty, random);
+    return {
+      id: `challenge-${randomId(random)}`,
+      operation,
+      operands,
+      pattern,
+      correctAnswer: calculateAnswer(operation, operands),
+      difficulty,
+      // Growing gaps hide a second pattern inside the first
+      reward: rewardMultipliers[difficulty] * (pattern === 'quadratic' ? 2 : 1),
+    };
+  }
+
+  if (getAnswerFormat(operation) !== 'integer') {
+    const operands = generateOperands(operation, difficulty, random);
+    const answer = calculateExactAnswer(operation, operands);
+    return {
+      id: `challenge-${randomId(random)}`,
+      operation,
+      operands,
+      answer,
+      correctAnswer: rationalToNumber(answer),
+      difficulty,
+      reward: rewardMultipliers[difficulty],
+    };
+  }
+
+  const isChained =
+    (operation === 'addition' || operation === 'subtraction') && random() < chainedOperandChance[difficulty];
+  const operands = generateOperands(operation, difficulty, random, isChained ? 3 : 2);
+
+  // Share of problems that hide an operand instead of the result (missing addend/factor)
+  const missingOperandChance: Record<DifficultyLevel, number> = {
+    infant: 0,
+    toddler: 0,
+    beginner: 0.15,
+    easy: 0.25,
+    medium: 0.3,
+    hard: 0.3,
+    expert: 0.3,
+  };
+
+  // "0 × ? = 0" has no single answer, so never hide a factor next to a zero
+  const hasZeroFactor = operation === 'multiplication' && operands.includes(0);
+  const missingOperand =
+    !isChained && !hasZeroFactor && random() < missingOperandChance[difficulty] ? randomInt(0, 1, random) : undefined;
+  const correctAnswer = calculateAnswer(operation, operands, missingOperand);
+
   return {
-    id: `challenge-${Date.now()}-${randomInt(1000, 9999)}`,
+    id: `challenge-${randomId(random)}`,
     operation,
     operands,
+    missingOperand,
     correctAnswer,
     difficulty,
-    reward: rewardMultipliers[difficulty],
+    reward: rewardMultipliers[difficulty] * (operands.length - 1),
   };
 }
 
 /**
- * Generate a boss challenge (harder and more rewarding)
+ * Pick an operation from the difficulty's weighted mix, adjusted by any tuning
+ */
+function pickOperation(
+  difficulty: DifficultyLevel,
+  random: RandomSource,
+  tuning?: ChallengeTuning
+): MathOperation {
+  const weights = (Object.entries(operationWeightsByDifficulty[difficulty]) as [MathOperation, number][]).map(
+    ([operation, weight]): [MathOperation, number] => [
+      operation,
+      weight * (tuning?.operationWeights[operation] ?? 1),
+    ]
+  );
+  const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random() * totalWeight;
+  for (const [operation, weight] of weights) {
+    roll -= weight;
+    if (roll < 0) {
+      return operation;
+    }
+  }
+  return weights[weights.length - 1][0];
+}
+
+/**
+ * Generate an order-of-operations expression mixing +/- with ×/÷ whose every step
+ * is a whole number within the difficulty's limits
+ */
+function generateExpression(difficulty: DifficultyLevel, random: RandomSource): Expression {
+  const limits = expressionLimits[difficulty];
+  const operandCount = limits.operandCounts[randomInt(0, limits.operandCounts.length - 1, random)];
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const expression = buildExpression(operandCount, limits, random);
+    if (!expression) {
+      continue;
+    }
+
+    // Precedence only matters when additive and multiplicative operators meet
+    const operations = getExpressionOperations(expression);
+    const hasAdditive = operations.some((op) => op === 'addition' || op === 'subtraction');
+    const hasMultiplicative = operations.some((op) => op === 'multiplication' || op === 'division');
+    if (hasAdditive && hasMultiplicative) {
+      return expression;
+    }
+  }
+
+  // Fall back to the classic "a + b × c"
+  return operationNode(
+    'addition',
+    numberNode(randomInt(1, limits.operandMax, random)),
+    operationNode(
+      'multiplication',
+      numberNode(randomInt(2, limits.factorMax, random)),
+      numberNode(randomInt(2, limits.factorMax, random))
+    )
+  );
+}
+
+/**
+ * Randomly build an expression tree over the given number of operands.
+ * Returns null when a step would leave the difficulty's clean range, so the caller can retry.
+ */
+function buildExpression(operandCount: number, limits: ExpressionLimits, random: RandomSource): Expression | null {
+  if (operandCount === 1) {
+    return numberNode(randomInt(1, limits.operandMax, random));
+  }
+
+  const operations: ArithmeticOperation[] = ['addition', 'subtraction', 'multiplication', 'division'];
+  const operation = operations[randomInt(0, operations.length - 1, random)];
+  const leftCount = randomInt(1, operandCount - 1, random);
+  const rightCount = operandCount - leftCount;
+
+  let left: Expression | null;
+  let right = buildExpression(rightCount, limits, random);
+  if (!right) {
+    return null;
+  }
+
+  if (operation === 'division') {
+    // Pick the divisor first, then a dividend it goes into evenly
+    const divisor = evaluateExpression(right);
+    if (divisor < 2 || divisor > limits.factorMax) {
+      return null;
+    }
+    left =
+      leftCount === 1
+        ? numberNode(divisor * randomInt(1, limits.factorMax, random))
+        : buildExpression(leftCount, limits, random);
+    if (!left || evaluateExpression(left) % divisor !== 0) {
+      return null;
+    }
+  } else {
+    left = buildExpression(leftCount, limits, random);
+    if (!left) {
+      return null;
+    }
+  }
+
+  // Keep subtraction from going below zero by taking the smaller side away from the larger
+  if (operation === 'subtraction' && evaluateExpression(left) < evaluateExpression(right)) {
+    [left, right] = [right, left];
+  }
+
+  if (
+    operation === 'multiplication' &&
+    Math.min(evaluateExpression(left), evaluateExpression(right)) > limits.factorMax
+  ) {
+    return null;
+  }
+
+  const expression = operationNode(operation, left, right);
+  const value = evaluateExpression(expression);
+  // A zero anywhere in the working makes the rest of the problem trivial
+  return Number.isInteger(value) && value > 0 && value <= limits.valueMax ? expression : null;
+}
+
+/**
+ * Generate a pile of coins and bills to count, or a price to pay along with the fewest pieces
+ * that pay it. Small piles are laid out largest first; from medium they come mixed up.
  */
-function generateBossChallenge(difficulty: DifficultyLevel): MathChallenge {
-  const currentIndex = difficultyProgression.indexOf(difficulty);
-  const bossDifficulty = difficultyProgression[Math.min(currentIndex + 1, difficultyProgression.length - 1)];
+function generateMoney(
+  difficulty: DifficultyLevel,
+  random: RandomSource
+): Pick<MathChallenge, 'moneyTask' | 'operands'> {
+  const limits = moneyLimits[difficulty];
+
+  if (random() < limits.payChance) {
+    // A price one coin pays on its own leaves nothing to work out
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const operands = makeChange(randomInt(2, limits.priceMax, random), limits.values);
+      if (operands.length >= 2) {
+        return { moneyTask: 'pay', operands };
+      }
+    }
+    return { moneyTask: 'pay', operands: makeChange(limits.values[0] + limits.values[1], limits.values) };
+  }
 
-  const challenge = generateRegularChallenge(bossDifficulty);
+  const count = randomInt(limits.pieceCounts[0], limits.pieceCounts[1], random);
+  const pieces = Array.from(
+    { length: count },
+    () => limits.values[randomInt(0, limits.values.length - 1, random)]
+  );
+  const isMixed = difficultyProgression.indexOf(difficulty) >= difficultyProgression.indexOf('medium');
+  return { moneyTask: 'count', operands: isMixed ? pieces : pieces.sort((a, b) => b - a) };
+}
+
+/**
+ * Pick a time for a clock to show, or a start time and an end time up to the difficulty's
+ * longest gap later. Elapsed times move in steps of at least five minutes.
+ */
+function generateClockTimes(
+  operation: ClockOperation,
+  difficulty: DifficultyLevel,
+  random: RandomSource
+): ClockFaces {
+  const limits = clockLimits[difficulty];
+  const step = operation === 'elapsed-time' ? Math.max(limits.minuteStep, 5) : limits.minuteStep;
+  const hours = randomInt(1, 12, random);
+  const minutes = randomInt(0, 60 / step - 1, random) * step;
+  if (operation === 'clock-reading') {
+    return { start: { hours, minutes } };
+  }
+
+  const elapsed = randomInt(1, limits.elapsedMax / step, random) * step;
+  return {
+    start: { hours, minutes },
+    end: fromClockMinutes(toClockMinutes(hours, minutes) + elapsed),
+  };
+}
+
+/**
+ * Generate the terms of a "what comes next" pattern from the difficulty's rules. Patterns that
+ * count down stop before going below zero.
+ */
+function generatePattern(
+  difficulty: DifficultyLevel,
+  random: RandomSource
+): { pattern: SequencePattern; operands: number[] } {
+  const limits = patternLimits[difficulty];
+  const pattern = pickPattern(limits, random);
+  const count = limits.termCount;
+  const terms = (first: number, nextTerm: (term: number, index: number) => number) =>
+    Array.from({ length: count - 1 }).reduce<number[]>(
+      (sequence, _, index) => [...sequence, nextTerm(sequence[index], index)],
+      [first]
+    );
+
+  switch (pattern) {
+    case 'skip-counting': {
+      const step = limits.skipSteps[randomInt(0, limits.skipSteps.length - 1, random)];
+      return { pattern, operands: terms(step * randomInt(0, 5, random), (term) => term + step) };
+    }
+    case 'arithmetic': {
+      const step = randomInt(2, limits.stepMax, random);
+      if (limits.countsDown && random() < 0.4) {
+        // Leave room for every term, the one to find included
+        const highest = step * count + randomInt(0, limits.stepMax, random);
+        return { pattern, operands: terms(highest, (term) => term - step) };
+      }
+      const first = randomInt(1, limits.stepMax, random);
+      return { pattern, operands: terms(first, (term) => term + step) };
+    }
+    case 'doubling':
+      return { pattern, operands: terms(randomInt(1, 5, random), (term) => term * 2) };
+    case 'quadratic': {
+      // The gaps grow by the same amount each time: 1, 4, 9, 16 has gaps 3, 5, 7
+      const firstGap = randomInt(1, 5, random);
+      const growth = randomInt(1, 3, random);
+      return {
+        pattern,
+        operands: terms(randomInt(0, 5, random), (term, index) => term + firstGap + growth * index),
+      };
+    }
+  }
+}
+
+/**
+ * Pick one of the difficulty's pattern rules by weight
+ */
+function pickPattern(limits: PatternLimits, random: RandomSource): SequencePattern {
+  const weights = Object.entries(limits.patterns) as [SequencePattern, number][];
+  const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random() * totalWeight;
+  for (const [pattern, weight] of weights) {
+    roll -= weight;
+    if (roll < 0) {
+      return pattern;
+    }
+  }
+  return weights[weights.length - 1][0];
+}
+
+/**
+ * Generate a boss challenge (harder and more rewarding)
+ */
+function generateBossChallenge(
+  difficulty: DifficultyLevel,
+  random: RandomSource,
+  tuning?: ChallengeTuning
+): MathChallenge {
+  const challenge = generateRegularChallenge(getNextDifficulty(difficulty), random, tuning);
   
   // Boss rewards are 3x regular rewards
   return {
     ...challenge,
-    id: `boss-${Date.now()}-${randomInt(1000, 9999)}`,
+    id: `boss-${randomId(random)}`,
     reward: challenge.reward * 3,
   };
 }
 
 /**
- * Get the next difficulty level for map progression
+ * Build a short identifier from the map's PRNG so regenerated maps keep the same ids
  */
-export function getNextDifficulty(currentDifficulty: DifficultyLevel): DifficultyLevel {
-  const currentIndex = difficultyProgression.indexOf(currentDifficulty);
-  return difficultyProgression[Math.min(currentIndex + 1, difficultyProgression.length - 1)];
+function randomId(random: RandomSource): string {
+  return Math.floor(random() * 0x100000000).toString(36);
 }
 
 /**
- * Calculate recommended map size based on difficulty
+ * Open the locked door at a position if the map's held keys include its color.
+ * Returns true when the door is (now) open.
  */
-export function getRecommendedMapSize(_difficulty: DifficultyLevel): { width: number; height: number } {
-  // All maps are now 24x24 for consistent maze experience
-  return { width: 24, height: 24 };
+export function tryUnlockDoor(map: TileMap, position: Position): boolean {
+  const tile = map.tiles[position.y]?.[position.x];
+  if (!tile || tile.type !== 'door') {
+    return false;
+  }
+
+  if (tile.isAccessible) {
+    return true;
+  }
+
+  if (!tile.keyColor || !map.heldKeys.includes(tile.keyColor)) {
+    return false;
+  }
+
+  tile.isAccessible = true;
+  return true;
 }
 
 /**
- * Generate a maze-like path from start to end using simple algorithm
+ * Mark tiles within the reveal radius of a position as explored (no-op without fog of war)
  */
-function generateMazePaths(width: number, height: number, start: Position, end: Position): boolean[][] {
-  // Initialize all as blocked (false = blocked, true = open)
-  const maze = Array(height).fill(null).map(() => Array(width).fill(false));
-  
-  // Simple path carving algorithm
-  const directions = [
-    { x: 0, y: -2 }, // up
-    { x: 2, y: 0 },  // right  
-    { x: 0, y: 2 },  // down
-    { x: -2, y: 0 }  // left
-  ];
-  
-  function isValid(x: number, y: number): boolean {
-    return x >= 0 && x < width && y >= 0 && y < height;
+export function revealAround(map: TileMap, position: Position, radius = FOG_REVEAL_RADIUS) {
+  if (!map.fogOfWar) {
+    return;
   }
-  
-  function carvePath(x: number, y: number) {
-    maze[y][x] = true; // Mark as open
-    
-    // Randomize directions
-    const shuffledDirections = [...directions].sort(() => Math.random() - 0.5);
-    
-    for (const dir of shuffledDirections) {
-      const newX = x + dir.x;
-      const newY = y + dir.y;
-      const wallX = x + dir.x / 2;
-      const wallY = y + dir.y / 2;
-      
-      if (isValid(newX, newY) && !maze[newY][newX]) {
-        maze[wallY][wallX] = true; // Remove wall
-        carvePath(newX, newY);
+
+  for (let y = Math.max(0, position.y - radius); y <= Math.min(map.height - 1, position.y + radius); y++) {
+    for (let x = Math.max(0, position.x - radius); x <= Math.min(map.width - 1, position.x + radius); x++) {
+      const dx = x - position.x;
+      const dy = y - position.y;
+      if (dx * dx + dy * dy <= radius * radius + 1) {
+        map.tiles[y][x].isExplored = true;
       }
     }
   }
-  
-  // Start carving from start position (ensure it's odd coordinates)
-  const startX = start.x % 2 === 0 ? start.x + 1 : start.x;
-  const startY = start.y % 2 === 0 ? start.y + 1 : start.y;
-  carvePath(startX, startY);
-  
-  // Ensure start and end are accessible
-  maze[start.y][start.x] = true;
-  maze[end.y][end.x] = true;
-  
-  // Verify that the carved maze connects start to end; fall back to carving a random corridor if not
-  if (!isPathAvailable(maze, start, end, width, height)) {
-    carveFallbackPath(maze, start, end);
-  }
-  
-  // Add some extra openings for more interesting paths
-  addExtraOpenings(maze, width, height);
-  
-  return maze;
 }
 
 /**
- * Determine if start and end are connected through currently open tiles
+ * Whether a tile should be drawn, taking fog of war into account
  */
-function isPathAvailable(maze: boolean[][], start: Position, end: Position, width: number, height: number): boolean {
-  const visited = Array.from({ length: height }, () => Array(width).fill(false));
-  const queue: Position[] = [start];
-  visited[start.y][start.x] = true;
-
-  const deltas = [
-    { x: 0, y: -1 },
-    { x: 1, y: 0 },
-    { x: 0, y: 1 },
-    { x: -1, y: 0 },
-  ];
-
-  while (queue.length) {
-    const current = queue.shift()!;
-    if (current.x === end.x && current.y === end.y) {
-      return true;
-    }
+export function isTileRevealed(map: TileMap, position: Position): boolean {
+  return !map.fogOfWar || Boolean(map.tiles[position.y]?.[position.x]?.isExplored);
+}
 
-    for (const delta of deltas) {
-      const nextX = current.x + delta.x;
-      const nextY = current.y + delta.y;
-      if (
-        nextX >= 0 &&
-        nextX < width &&
-        nextY >= 0 &&
-        nextY < height &&
-        !visited[nextY][nextX] &&
-        maze[nextY][nextX]
-      ) {
-        visited[nextY][nextX] = true;
-        queue.push({ x: nextX, y: nextY });
-      }
-    }
+/**
+ * Add a collected key to the map's key ring
+ */
+export function collectKey(map: TileMap, color: KeyColor) {
+  if (!map.heldKeys.includes(color)) {
+    map.heldKeys = [...map.heldKeys, color];
   }
-
-  return false;
 }
 
 /**
- * Fall back to a randomized monotonic corridor if the maze failed to connect start and end
+ * Get the next difficulty level for map progression
  */
-function carveFallbackPath(maze: boolean[][], start: Position, end: Position) {
-  let currentX = start.x;
-  let currentY = start.y;
-  maze[currentY][currentX] = true;
+export function getNextDifficulty(currentDifficulty: DifficultyLevel): DifficultyLevel {
+  const currentIndex = difficultyProgression.indexOf(currentDifficulty);
+  return difficultyProgression[Math.min(currentIndex + 1, difficultyProgression.length - 1)];
+}
 
-  while (currentX !== end.x || currentY !== end.y) {
-    const candidates: Position[] = [];
+/**
+ * Move a number of levels up (positive) or down (negative), staying within the progression
+ */
+export function shiftDifficulty(difficulty: DifficultyLevel, steps: number): DifficultyLevel {
+  const index = difficultyProgression.indexOf(difficulty) + steps;
+  return difficultyProgression[Math.max(0, Math.min(index, difficultyProgression.length - 1))];
+}
 
-    if (currentX !== end.x) {
-      const stepX = currentX < end.x ? 1 : -1;
-      candidates.push({ x: currentX + stepX, y: currentY });
-    }
+/**
+ * Coins and bills used in a difficulty's money problems, smallest first
+ */
+export function getMoneyValues(difficulty: DifficultyLevel): number[] {
+  return moneyLimits[difficulty].values;
+}
 
-    if (currentY !== end.y) {
-      const stepY = currentY < end.y ? 1 : -1;
-      candidates.push({ x: currentX, y: currentY + stepY });
-    }
+/**
+ * Minutes between the times a difficulty's clocks can show, e.g. 15 for quarter hours
+ */
+export function getClockMinuteStep(difficulty: DifficultyLevel): number {
+  return clockLimits[difficulty].minuteStep;
+}
 
-    const next = candidates[randomInt(0, candidates.length - 1)];
+/**
+ * Operations that appear in a difficulty's challenge mix
+ */
+export function getOperationsForDifficulty(difficulty: DifficultyLevel): MathOperation[] {
+  return Object.keys(operationWeightsByDifficulty[difficulty]) as MathOperation[];
+}
 
-    maze[next.y][next.x] = true;
+// Every run of this many correct answers in a row pays a streak bonus
+export const STREAK_BONUS_INTERVAL = 5;
 
-    currentX = next.x;
-    currentY = next.y;
+/**
+ * Coins earned for reaching a streak, growing with the streak's length; 0 between milestones
+ */
+export function getStreakBonus(streak: number): number {
+  if (streak <= 0 || streak % STREAK_BONUS_INTERVAL !== 0) {
+    return 0;
   }
+  return streak * 2;
+}
+
+/**
+ * Calculate recommended map size based on difficulty
+ */
+export function getRecommendedMapSize(_difficulty: DifficultyLevel): { width: number; height: number } {
+  // All maps are now 24x24 for consistent maze experience
+  return { width: 24, height: 24 };
+}
 
-  maze[end.y][end.x] = true;
+/**
+ * Carve the walkable layout of a map with the chosen maze generator,
+ * noting the dead ends (excluding start and end) for treasure placement
+ */
+function generateMazePaths(
+  width: number,
+  height: number,
+  start: Position,
+  end: Position,
+  algorithm: MazeAlgorithm,
+  random: RandomSource
+): { paths: MazeGrid; deadEnds: Position[] } {
+  const paths = getMazeGenerator(algorithm).carve(width, height, start, end, random);
+  connectMaze(paths, start, end, random);
+  return { paths, deadEnds: findDeadEnds(paths, [start, end]) };
 }
 
 /**
- * Add some extra openings to make the maze less linear
+ * Pick a chest's contents from the difficulty's weighted loot table
  */
-function addExtraOpenings(maze: boolean[][], width: number, height: number) {
-  const openingCount = Math.floor((width * height) * 0.1); // 10% extra openings
-  
-  for (let i = 0; i < openingCount; i++) {
-    const x = randomInt(1, width - 2);
-    const y = randomInt(1, height - 2);
-    maze[y][x] = true;
+function rollChestLoot(difficulty: DifficultyLevel, random: RandomSource): ChestLoot {
+  const table = chestLootTables[difficulty];
+  const totalWeight = table.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = random() * totalWeight;
+  for (const entry of table) {
+    roll -= entry.weight;
+    if (roll < 0) {
+      return { ...entry.loot };
+    }
   }
+  return { ...table[table.length - 1].loot };
+}
+
+/**
+ * Pick a maze algorithm suited to the difficulty
+ */
+function pickMazeAlgorithm(difficulty: DifficultyLevel, random: RandomSource): MazeAlgorithm {
+  const algorithms = mazeAlgorithmsByDifficulty[difficulty];
+  return algorithms[randomInt(0, algorithms.length - 1, random)];
 }
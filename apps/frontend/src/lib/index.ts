@@ -1,3 +1,15 @@
 export * from './types';
 export * from './utils';
 export * from './game-logic';
+export * from './maze';
+export * from './expression';
+export * from './rational';
+export * from './adaptive';
+export * from './review';
+export * from './analytics';
+export * from './save-format';
+export * from './shop';
+export * from './bank';
+export * from './money';
+export * from './clock';
+export * from './sequence';
@@ -0,0 +1,646 @@
+import { KeyColor } from './types';
+import type { MazeAlgorithm, Position } from './types';
+import { randomInt, shuffle } from './utils';
+import type { RandomSource } from './utils';
+
+/**
+ * Open/blocked layout of a map, indexed as grid[y][x] (true = open)
+ */
+export type MazeGrid = boolean[][];
+
+/**
+ * Colored doors and the keys that open them, keyed by "x,y"
+ */
+export interface MazeLocks {
+  doors: Map<string, KeyColor>;
+  keys: Map<string, KeyColor>;
+}
+
+/**
+ * A door on the route to the boss together with the key tile that opens it
+ */
+export interface LockPlacement {
+  color: KeyColor;
+  door: Position;
+  key: Position;
+}
+
+/**
+ * Strategy for carving the walkable layout of a map
+ */
+export interface MazeGenerator {
+  readonly algorithm: MazeAlgorithm;
+  /**
+   * Carve a raw layout. Generators don't need to guarantee connectivity;
+   * `connectMaze` takes care of joining start and end afterwards.
+   */
+  carve(width: number, height: number, start: Position, end: Position, random: RandomSource): MazeGrid;
+}
+
+const orthogonalDeltas = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+// Moves between maze cells, which sit two tiles apart with a wall tile in between
+const cellDeltas = orthogonalDeltas.map((delta) => ({ x: delta.x * 2, y: delta.y * 2 }));
+
+function createBlockedGrid(width: number, height: number): MazeGrid {
+  return Array.from({ length: height }, () => Array(width).fill(false));
+}
+
+function isInBounds(x: number, y: number, width: number, height: number): boolean {
+  return x >= 0 && x < width && y >= 0 && y < height;
+}
+
+/**
+ * Cell-based mazes carve on odd coordinates, leaving even rows/columns as walls
+ */
+function toCell(position: Position): Position {
+  return {
+    x: position.x % 2 === 0 ? position.x + 1 : position.x,
+    y: position.y % 2 === 0 ? position.y + 1 : position.y,
+  };
+}
+
+function getLatticeCells(width: number, height: number): Position[] {
+  const cells: Position[] = [];
+  for (let y = 1; y < height; y += 2) {
+    for (let x = 1; x < width; x += 2) {
+      cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Recursive backtracker: long winding corridors with few branches
+ */
+const backtrackerGenerator: MazeGenerator = {
+  algorithm: 'backtracker',
+  carve(width, height, start, _end, random) {
+    const maze = createBlockedGrid(width, height);
+
+    function carvePath(x: number, y: number) {
+      maze[y][x] = true;
+
+      for (const dir of shuffle(cellDeltas, random)) {
+        const newX = x + dir.x;
+        const newY = y + dir.y;
+
+        if (isInBounds(newX, newY, width, height) && !maze[newY][newX]) {
+          maze[y + dir.y / 2][x + dir.x / 2] = true; // Remove wall
+          carvePath(newX, newY);
+        }
+      }
+    }
+
+    const origin = toCell(start);
+    if (isInBounds(origin.x, origin.y, width, height)) {
+      carvePath(origin.x, origin.y);
+    }
+    addLoops(maze, width, height, 0.1, random);
+
+    return maze;
+  },
+};
+
+/**
+ * Randomized Prim's: grows outward from the start, giving many short dead-end branches
+ */
+const primGenerator: MazeGenerator = {
+  algorithm: 'prim',
+  carve(width, height, start, _end, random) {
+    const maze = createBlockedGrid(width, height);
+    const origin = toCell(start);
+    if (!isInBounds(origin.x, origin.y, width, height)) {
+      return maze;
+    }
+
+    const frontier: { from: Position; to: Position }[] = [];
+    const addFrontier = (cell: Position) => {
+      for (const dir of cellDeltas) {
+        const to = { x: cell.x + dir.x, y: cell.y + dir.y };
+        if (isInBounds(to.x, to.y, width, height) && !maze[to.y][to.x]) {
+          frontier.push({ from: cell, to });
+        }
+      }
+    };
+
+    maze[origin.y][origin.x] = true;
+    addFrontier(origin);
+
+    while (frontier.length) {
+      const index = randomInt(0, frontier.length - 1, random);
+      const { from, to } = frontier[index];
+      frontier[index] = frontier[frontier.length - 1];
+      frontier.pop();
+
+      if (maze[to.y][to.x]) {
+        continue;
+      }
+
+      maze[(from.y + to.y) / 2][(from.x + to.x) / 2] = true;
+      maze[to.y][to.x] = true;
+      addFrontier(to);
+    }
+
+    addLoops(maze, width, height, 0.05, random);
+
+    return maze;
+  },
+};
+
+/**
+ * Randomized Kruskal's: joins cells through shuffled walls, producing an evenly textured maze
+ */
+const kruskalGenerator: MazeGenerator = {
+  algorithm: 'kruskal',
+  carve(width, height, _start, _end, random) {
+    const maze = createBlockedGrid(width, height);
+    const cells = getLatticeCells(width, height);
+    const parent = new Map<string, string>();
+    const keyOf = (cell: Position) => `${cell.x},${cell.y}`;
+
+    const find = (key: string): string => {
+      let root = key;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      parent.set(key, root);
+      return root;
+    };
+
+    const walls: { a: Position; b: Position }[] = [];
+    for (const cell of cells) {
+      maze[cell.y][cell.x] = true;
+      parent.set(keyOf(cell), keyOf(cell));
+      for (const dir of [cellDeltas[1], cellDeltas[2]]) {
+        const neighbor = { x: cell.x + dir.x, y: cell.y + dir.y };
+        if (isInBounds(neighbor.x, neighbor.y, width, height)) {
+          walls.push({ a: cell, b: neighbor });
+        }
+      }
+    }
+
+    for (const { a, b } of shuffle(walls, random)) {
+      const rootA = find(keyOf(a));
+      const rootB = find(keyOf(b));
+      if (rootA !== rootB) {
+        parent.set(rootA, rootB);
+        maze[(a.y + b.y) / 2][(a.x + b.x) / 2] = true;
+      }
+    }
+
+    addLoops(maze, width, height, 0.08, random);
+
+    return maze;
+  },
+};
+
+/**
+ * Rooms and corridors: open chambers chained together from the start corner to the boss corner
+ */
+const roomsGenerator: MazeGenerator = {
+  algorithm: 'rooms',
+  carve(width, height, start, end, random) {
+    const maze = createBlockedGrid(width, height);
+    const rooms: { x: number; y: number; width: number; height: number }[] = [];
+    const targetRooms = Math.max(3, Math.floor((width * height) / 40));
+
+    for (let attempt = 0; attempt < targetRooms * 10 && rooms.length < targetRooms; attempt++) {
+      const roomWidth = randomInt(2, 4, random);
+      const roomHeight = randomInt(2, 4, random);
+      const room = {
+        x: randomInt(1, Math.max(1, width - roomWidth - 1), random),
+        y: randomInt(1, Math.max(1, height - roomHeight - 1), random),
+        width: roomWidth,
+        height: roomHeight,
+      };
+
+      // Keep a one-tile wall between rooms so they read as separate chambers
+      const overlaps = rooms.some(
+        (other) =>
+          room.x - 1 <= other.x + other.width &&
+          room.x + room.width + 1 >= other.x &&
+          room.y - 1 <= other.y + other.height &&
+          room.y + room.height + 1 >= other.y
+      );
+      if (!overlaps) {
+        rooms.push(room);
+      }
+    }
+
+    for (const room of rooms) {
+      for (let y = room.y; y < Math.min(height, room.y + room.height); y++) {
+        for (let x = room.x; x < Math.min(width, room.x + room.width); x++) {
+          maze[y][x] = true;
+        }
+      }
+    }
+
+    // Chain rooms in order of distance from the start so the route flows towards the boss
+    const centers = rooms
+      .map((room) => ({
+        x: room.x + Math.floor(room.width / 2),
+        y: room.y + Math.floor(room.height / 2),
+      }))
+      .sort(
+        (a, b) =>
+          Math.abs(a.x - start.x) + Math.abs(a.y - start.y) - (Math.abs(b.x - start.x) + Math.abs(b.y - start.y))
+      );
+
+    const waypoints = [start, ...centers, end];
+    for (let i = 1; i < waypoints.length; i++) {
+      carveCorridor(maze, waypoints[i - 1], waypoints[i], random);
+    }
+
+    return maze;
+  },
+};
+
+/**
+ * Cellular automaton caves: organic open areas with irregular walls
+ */
+const cavesGenerator: MazeGenerator = {
+  algorithm: 'caves',
+  carve(width, height, _start, _end, random) {
+    let maze = createBlockedGrid(width, height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        maze[y][x] = random() < 0.55;
+      }
+    }
+
+    for (let step = 0; step < 4; step++) {
+      const next = createBlockedGrid(width, height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          let openNeighbors = 0;
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              if ((dx !== 0 || dy !== 0) && isInBounds(x + dx, y + dy, width, height) && maze[y + dy][x + dx]) {
+                openNeighbors++;
+              }
+            }
+          }
+          next[y][x] = maze[y][x] ? openNeighbors >= 4 : openNeighbors >= 5;
+        }
+      }
+      maze = next;
+    }
+
+    return maze;
+  },
+};
+
+const mazeGenerators: Record<MazeAlgorithm, MazeGenerator> = {
+  backtracker: backtrackerGenerator,
+  prim: primGenerator,
+  kruskal: kruskalGenerator,
+  rooms: roomsGenerator,
+  caves: cavesGenerator,
+};
+
+/**
+ * Look up the generator for a maze algorithm
+ */
+export function getMazeGenerator(algorithm: MazeAlgorithm): MazeGenerator {
+  return mazeGenerators[algorithm];
+}
+
+/**
+ * Make sure start and end are open and connected, and close off any pockets the player could never reach
+ */
+export function connectMaze(maze: MazeGrid, start: Position, end: Position, random: RandomSource) {
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+
+  maze[start.y][start.x] = true;
+  maze[end.y][end.x] = true;
+
+  if (!isPathAvailable(maze, start, end, width, height)) {
+    carveFallbackPath(maze, start, end, random);
+  }
+
+  const reachable = getReachableTiles(maze, start, width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      maze[y][x] = maze[y][x] && reachable[y][x];
+    }
+  }
+}
+
+/**
+ * Flood fill from a position through open tiles, skipping any tile the predicate blocks
+ */
+function getReachableTiles(
+  maze: MazeGrid,
+  from: Position,
+  width: number,
+  height: number,
+  isBlocked: (x: number, y: number) => boolean = () => false
+): boolean[][] {
+  const visited = createBlockedGrid(width, height);
+  const queue: Position[] = [from];
+  visited[from.y][from.x] = true;
+
+  while (queue.length) {
+    const current = queue.shift()!;
+    for (const delta of orthogonalDeltas) {
+      const nextX = current.x + delta.x;
+      const nextY = current.y + delta.y;
+      if (
+        isInBounds(nextX, nextY, width, height) &&
+        !visited[nextY][nextX] &&
+        maze[nextY][nextX] &&
+        !isBlocked(nextX, nextY)
+      ) {
+        visited[nextY][nextX] = true;
+        queue.push({ x: nextX, y: nextY });
+      }
+    }
+  }
+
+  return visited;
+}
+
+/**
+ * Determine if start and end are connected through currently open tiles.
+ * With locks, doors only open once their key has been picked up on the way,
+ * so a key hidden behind its own door (or a cycle of doors) makes the map unsolvable.
+ */
+export function isPathAvailable(
+  maze: MazeGrid,
+  start: Position,
+  end: Position,
+  width: number,
+  height: number,
+  locks?: MazeLocks
+): boolean {
+  const heldKeys = new Set<KeyColor>();
+
+  for (;;) {
+    const reachable = getReachableTiles(maze, start, width, height, (x, y) => {
+      const doorColor = locks?.doors.get(`${x},${y}`);
+      return doorColor !== undefined && !heldKeys.has(doorColor);
+    });
+    if (reachable[end.y][end.x]) {
+      return true;
+    }
+
+    let pickedUpKey = false;
+    for (const [key, color] of locks?.keys ?? []) {
+      const [x, y] = key.split(',').map(Number);
+      if (reachable[y][x] && !heldKeys.has(color)) {
+        heldKeys.add(color);
+        pickedUpKey = true;
+      }
+    }
+
+    if (!pickedUpKey) {
+      return false;
+    }
+  }
+}
+
+/**
+ * Find open tiles with exactly one open neighbor
+ */
+export function findDeadEnds(maze: MazeGrid, exclude: Position[] = []): Position[] {
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  const deadEnds: Position[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!maze[y][x] || exclude.some((position) => position.x === x && position.y === y)) {
+        continue;
+      }
+      const openNeighbors = orthogonalDeltas.filter(
+        (delta) => isInBounds(x + delta.x, y + delta.y, width, height) && maze[y + delta.y][x + delta.x]
+      ).length;
+      if (openNeighbors === 1) {
+        deadEnds.push({ x, y });
+      }
+    }
+  }
+
+  return deadEnds;
+}
+
+/**
+ * Breadth-first shortest route between two open tiles (inclusive), or [] if unreachable
+ */
+function findShortestPath(maze: MazeGrid, start: Position, end: Position, width: number, height: number): Position[] {
+  const previous = new Map<string, Position>();
+  const visited = createBlockedGrid(width, height);
+  const queue: Position[] = [start];
+  visited[start.y][start.x] = true;
+
+  while (queue.length) {
+    const current = queue.shift()!;
+    if (current.x === end.x && current.y === end.y) {
+      const path: Position[] = [current];
+      let step = previous.get(`${current.x},${current.y}`);
+      while (step) {
+        path.unshift(step);
+        step = previous.get(`${step.x},${step.y}`);
+      }
+      return path;
+    }
+
+    for (const delta of orthogonalDeltas) {
+      const next = { x: current.x + delta.x, y: current.y + delta.y };
+      if (isInBounds(next.x, next.y, width, height) && !visited[next.y][next.x] && maze[next.y][next.x]) {
+        visited[next.y][next.x] = true;
+        previous.set(`${next.x},${next.y}`, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Place up to `count` colored doors on chokepoints of the route to the end, each with a key
+ * reachable before its door. Later keys sit behind earlier doors, so doors must be opened in order.
+ */
+export function placeLocks(
+  maze: MazeGrid,
+  start: Position,
+  end: Position,
+  count: number,
+  random: RandomSource
+): LockPlacement[] {
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  const colors = KeyColor.options;
+  const lockCount = Math.min(count, colors.length);
+  if (lockCount <= 0) {
+    return [];
+  }
+
+  // Only tiles the route can't go around make sensible doors
+  const path = findShortestPath(maze, start, end, width, height);
+  const chokepoints = path.slice(2, -2).filter((cell) => {
+    maze[cell.y][cell.x] = false;
+    const isCut = !isPathAvailable(maze, start, end, width, height);
+    maze[cell.y][cell.x] = true;
+    return isCut;
+  });
+
+  // Spread doors along the route by picking one chokepoint from each equal slice
+  const doors: Position[] = [];
+  for (let i = 0; i < lockCount; i++) {
+    const slice = chokepoints.slice(
+      Math.floor((i * chokepoints.length) / lockCount),
+      Math.floor(((i + 1) * chokepoints.length) / lockCount)
+    );
+    if (slice.length) {
+      doors.push(slice[randomInt(0, slice.length - 1, random)]);
+    }
+  }
+
+  const isDoor = (x: number, y: number) => doors.some((door) => door.x === x && door.y === y);
+  const onPath = (x: number, y: number) => path.some((cell) => cell.x === x && cell.y === y);
+  const deadEnds = findDeadEnds(maze, [start, end]);
+  const placements: LockPlacement[] = [];
+  let previousRegion: boolean[][] | null = null;
+
+  for (let i = 0; i < doors.length; i++) {
+    // Tiles reachable once every earlier door is open but this one is still shut
+    const laterDoors = doors.slice(i);
+    const region = getReachableTiles(maze, start, width, height, (x, y) =>
+      laterDoors.some((door) => door.x === x && door.y === y)
+    );
+
+    const candidates: Position[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const isTaken =
+          (x === start.x && y === start.y) ||
+          (x === end.x && y === end.y) ||
+          isDoor(x, y) ||
+          placements.some((placement) => placement.key.x === x && placement.key.y === y);
+        if (region[y][x] && !isTaken) {
+          candidates.push({ x, y });
+        }
+      }
+    }
+
+    // Prefer the area the previous door just opened, then dead ends, then anything off the main route
+    const unlocked = previousRegion
+      ? candidates.filter((cell) => !previousRegion![cell.y][cell.x])
+      : candidates;
+    const pool = unlocked.length ? unlocked : candidates;
+    const preferred = [
+      pool.filter((cell) => deadEnds.some((deadEnd) => deadEnd.x === cell.x && deadEnd.y === cell.y)),
+      pool.filter((cell) => !onPath(cell.x, cell.y)),
+      pool,
+    ].find((group) => group.length > 0);
+
+    if (!preferred) {
+      break;
+    }
+
+    placements.push({
+      color: colors[i],
+      door: doors[i],
+      key: preferred[randomInt(0, preferred.length - 1, random)],
+    });
+    previousRegion = region;
+  }
+
+  const locks: MazeLocks = {
+    doors: new Map(placements.map((placement) => [`${placement.door.x},${placement.door.y}`, placement.color])),
+    keys: new Map(placements.map((placement) => [`${placement.key.x},${placement.key.y}`, placement.color])),
+  };
+
+  return isPathAvailable(maze, start, end, width, height, locks) ? placements : [];
+}
+
+/**
+ * Fall back to a randomized monotonic corridor if the maze failed to connect start and end
+ */
+function carveFallbackPath(maze: MazeGrid, start: Position, end: Position, random: RandomSource) {
+  let currentX = start.x;
+  let currentY = start.y;
+  maze[currentY][currentX] = true;
+
+  while (currentX !== end.x || currentY !== end.y) {
+    const candidates: Position[] = [];
+
+    if (currentX !== end.x) {
+      const stepX = currentX < end.x ? 1 : -1;
+      candidates.push({ x: currentX + stepX, y: currentY });
+    }
+
+    if (currentY !== end.y) {
+      const stepY = currentY < end.y ? 1 : -1;
+      candidates.push({ x: currentX, y: currentY + stepY });
+    }
+
+    const next = candidates[randomInt(0, candidates.length - 1, random)];
+
+    maze[next.y][next.x] = true;
+
+    currentX = next.x;
+    currentY = next.y;
+  }
+
+  maze[end.y][end.x] = true;
+}
+
+/**
+ * Carve an L-shaped corridor between two points, randomly choosing which leg goes first
+ */
+function carveCorridor(maze: MazeGrid, from: Position, to: Position, random: RandomSource) {
+  const horizontalFirst = random() < 0.5;
+  const corner = horizontalFirst ? { x: to.x, y: from.y } : { x: from.x, y: to.y };
+
+  for (const [a, b] of [
+    [from, corner],
+    [corner, to],
+  ]) {
+    const stepX = Math.sign(b.x - a.x);
+    const stepY = Math.sign(b.y - a.y);
+    let x = a.x;
+    let y = a.y;
+    maze[y][x] = true;
+    while (x !== b.x || y !== b.y) {
+      x += stepX;
+      y += stepY;
+      maze[y][x] = true;
+    }
+  }
+}
+
+/**
+ * Knock out a share of the walls that sit between two corridors to create loops.
+ * Only straight walls qualify, so this never opens up blobs the way random holes do.
+ */
+function addLoops(maze: MazeGrid, width: number, height: number, share: number, random: RandomSource) {
+  const candidates: Position[] = [];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (maze[y][x]) {
+        continue;
+      }
+      const horizontal = maze[y][x - 1] && maze[y][x + 1] && !maze[y - 1][x] && !maze[y + 1][x];
+      const vertical = maze[y - 1][x] && maze[y + 1][x] && !maze[y][x - 1] && !maze[y][x + 1];
+      if (horizontal || vertical) {
+        candidates.push({ x, y });
+      }
+    }
+  }
+
+  const openings = Math.floor(candidates.length * share);
+  for (const wall of shuffle(candidates, random).slice(0, openings)) {
+    maze[wall.y][wall.x] = true;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { COIN_VALUES, countOnTotals, formatMoney, isBill, makeChange, parseMoney } from './money';
+
+describe('formatMoney', () => {
+  it('writes cents below a dollar and dollars from there', () => {
+    expect(formatMoney(47)).toBe('47¢');
+    expect(formatMoney(235)).toBe('$2.35');
+    expect(formatMoney(305)).toBe('$3.05');
+    expect(formatMoney(300)).toBe('$3');
+  });
+});
+
+describe('parseMoney', () => {
+  it('reads dollars with or without the sign or cents', () => {
+    expect(parseMoney('$34.86')).toBe(3486);
+    expect(parseMoney('34.86')).toBe(3486);
+    expect(parseMoney('$34')).toBe(3400);
+    expect(parseMoney('0.05')).toBe(5);
+  });
+
+  it('wants cents written with two digits', () => {
+    for (const input of ['34.8', '34.867', '$.50', '$', '34¢']) {
+      expect(parseMoney(input), input).toBeNull();
+    }
+  });
+});
+
+describe('isBill', () => {
+  it('tells bills from coins', () => {
+    expect(isBill(100)).toBe(true);
+    expect(isBill(1000)).toBe(true);
+    expect(isBill(25)).toBe(false);
+  });
+});
+
+describe('makeChange', () => {
+  it('pays with as few coins as possible, largest first', () => {
+    expect(makeChange(68, COIN_VALUES)).toEqual([25, 25, 10, 5, 1, 1, 1]);
+    expect(makeChange(0, COIN_VALUES)).toEqual([]);
+  });
+
+  it('only uses the values it is given', () => {
+    expect(makeChange(30, [5, 10])).toEqual([10, 10, 10]);
+  });
+});
+
+describe('countOnTotals', () => {
+  it('counts on from the largest piece', () => {
+    expect(countOnTotals([10, 25, 5])).toEqual([25, 35, 40]);
+  });
+});
@@ -0,0 +1,55 @@
+// Coins and bills used by money challenges, in cents, smallest first
+export const COIN_VALUES = [1, 5, 10, 25];
+export const BILL_VALUES = [100, 500, 1000];
+
+/**
+ * Whether a piece of money is a paper bill rather than a coin
+ */
+export function isBill(cents: number): boolean {
+  return BILL_VALUES.includes(cents);
+}
+
+/**
+ * Write an amount the way it is taught: cents below a dollar (47¢), dollars from there ($2.35)
+ */
+export function formatMoney(cents: number): string {
+  if (Math.abs(cents) < 100) {
+    return `${cents}¢`;
+  }
+  const dollars = Math.floor(cents / 100);
+  const rest = cents % 100;
+  return rest === 0 ? `$${dollars}` : `$${dollars}.${String(rest).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a typed dollar amount ("$34.86", "34.86" or "$34") into cents.
+ * Returns null unless any cents are written with two digits.
+ */
+export function parseMoney(input: string): number | null {
+  const match = /^\$?(\d+)(?:\.(\d{2}))?$/.exec(input.trim());
+  return match ? Number(match[1]) * 100 + Number(match[2] ?? '0') : null;
+}
+
+/**
+ * Pay an amount with as few pieces as possible, largest first.
+ * Greedy picking is enough for these denominations as long as 1¢ coins are available.
+ */
+export function makeChange(cents: number, values: readonly number[]): number[] {
+  const pieces: number[] = [];
+  let left = cents;
+  for (const value of [...values].sort((a, b) => b - a)) {
+    while (left >= value) {
+      pieces.push(value);
+      left -= value;
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Running totals when counting on from the largest piece: 25¢, 35¢, 40¢ ...
+ */
+export function countOnTotals(pieces: readonly number[]): number[] {
+  let total = 0;
+  return [...pieces].sort((a, b) => b - a).map((value) => (total += value));
+}
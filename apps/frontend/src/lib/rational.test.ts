@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseRational, rational } from './rational';
+
+describe('parseRational', () => {
+  it('reads whole numbers, fractions and decimals', () => {
+    expect(parseRational('7')).toEqual(rational(7, 1));
+    expect(parseRational('3/4')).toEqual(rational(3, 4));
+    expect(parseRational('0.75')).toEqual(rational(75, 100));
+    expect(parseRational('.5')).toEqual(rational(5, 10));
+  });
+
+  it('keeps fractions as typed rather than simplifying them', () => {
+    expect(parseRational('2/4')).toEqual(rational(2, 4));
+  });
+
+  it('puts the sign on the numerator', () => {
+    expect(parseRational('-3')).toEqual(rational(-3, 1));
+    expect(parseRational('-1/2')).toEqual(rational(-1, 2));
+    expect(parseRational('-0.25')).toEqual(rational(-25, 100));
+  });
+
+  it('ignores surrounding spaces', () => {
+    expect(parseRational(' 12 ')).toEqual(rational(12, 1));
+  });
+
+  it('rejects text that is not a number', () => {
+    for (const input of ['', '-', '.', 'abc', '1/0', '1/', '/2', '1.2.3', '3:45']) {
+      expect(parseRational(input), input).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import type { Rational } from './types';
+
+/**
+ * Greatest common divisor of two integers
+ */
+export function gcd(a: number, b: number): number {
+  let x = Math.abs(a);
+  let y = Math.abs(b);
+  while (y !== 0) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+}
+
+/**
+ * Create a rational number, keeping the sign on the numerator
+ */
+export function rational(numerator: number, denominator = 1): Rational {
+  if (denominator === 0) {
+    throw new Error('Denominator cannot be zero');
+  }
+  const sign = denominator < 0 ? -1 : 1;
+  return { numerator: numerator * sign, denominator: denominator * sign };
+}
+
+/**
+ * Reduce a rational number to lowest terms
+ */
+export function simplifyRational(value: Rational): Rational {
+  const divisor = gcd(value.numerator, value.denominator) || 1;
+  return rational(value.numerator / divisor, value.denominator / divisor);
+}
+
+/**
+ * Whether a fraction is already written in lowest terms
+ */
+export function isLowestTerms(value: Rational): boolean {
+  return gcd(value.numerator, value.denominator) === 1;
+}
+
+export function addRationals(a: Rational, b: Rational): Rational {
+  const numerator = a.numerator * b.denominator + b.numerator * a.denominator;
+  return simplifyRational(rational(numerator, a.denominator * b.denominator));
+}
+
+export function subtractRationals(a: Rational, b: Rational): Rational {
+  const numerator = a.numerator * b.denominator - b.numerator * a.denominator;
+  return simplifyRational(rational(numerator, a.denominator * b.denominator));
+}
+
+/**
+ * Compare by value, so 2/4, 1/2 and 0.5 are all equal
+ */
+export function rationalsEqual(a: Rational, b: Rational): boolean {
+  return a.numerator * b.denominator === b.numerator * a.denominator;
+}
+
+export function rationalToNumber(value: Rational): number {
+  return value.numerator / value.denominator;
+}
+
+/**
+ * Exact form of a finite decimal such as 1.25 (125/100), keeping the written precision
+ */
+export function decimalToRational(value: number): Rational {
+  const [, fraction = ''] = `${value}`.split('.');
+  const denominator = 10 ** fraction.length;
+  return rational(Math.round(value * denominator), denominator);
+}
+
+/**
+ * Render as "3/4", or just "2" for whole numbers
+ */
+export function formatRational(value: Rational): string {
+  return value.denominator === 1 ? `${value.numerator}` : `${value.numerator}/${value.denominator}`;
+}
+
+/**
+ * Parse a typed answer ("7", "3/4", "0.75") without simplifying it, so callers can tell 2/4 from 1/2.
+ * Returns null when the text is not a number.
+ */
+export function parseRational(input: string): Rational | null {
+  const text = input.trim();
+
+  const fraction = /^(-?\d+)\/(\d+)$/.exec(text);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator === 0 ? null : rational(Number(fraction[1]), denominator);
+  }
+
+  const decimal = /^(-?)(\d*)(?:\.(\d+))?$/.exec(text);
+  if (!decimal || (!decimal[2] && !decimal[3])) {
+    return null;
+  }
+  const [, sign, whole, fractionDigits = ''] = decimal;
+  const denominator = 10 ** fractionDigits.length;
+  const numerator = Number(whole || '0') * denominator + Number(fractionDigits || '0');
+  return rational(sign ? -numerator : numerator, denominator);
+}
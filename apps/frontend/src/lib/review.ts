@@ -0,0 +1,70 @@
+import type { MathChallenge, ReviewItem, ReviewQueue } from './types';
+import { formatChallenge } from './utils';
+
+// Challenges to wait before a fact comes back, by box; a correct answer in the last box retires it
+const REVIEW_INTERVALS = [1, 3, 6, 12];
+
+// Oldest facts are dropped beyond this so the queue stays a short, focused list
+const MAX_REVIEW_ITEMS = 40;
+
+export function createReviewQueue(): ReviewQueue {
+  return { clock: 0, items: [] };
+}
+
+/**
+ * Identify a fact by how it reads, so "7 × 8 = ?" matches wherever it turns up
+ */
+export function getFactKey(challenge: MathChallenge): string {
+  return formatChallenge(challenge);
+}
+
+/**
+ * The earliest fact whose review is due, if any
+ */
+export function getDueReview(queue: ReviewQueue): ReviewItem | undefined {
+  return queue.items
+    .filter((item) => item.dueAt <= queue.clock)
+    .sort((a, b) => a.dueAt - b.dueAt)[0];
+}
+
+/**
+ * Dress a due fact up as the given mob or boss challenge, keeping its id and reward
+ */
+export function toReviewChallenge(item: ReviewItem, base: MathChallenge): MathChallenge {
+  return { ...item.challenge, id: base.id, reward: base.reward };
+}
+
+/**
+ * Record how a challenge went and tick the review clock. Missed facts go (back) into the first
+ * box; queued facts answered correctly move up a box and wait longer, retiring after the last.
+ */
+export function recordReviewOutcome(
+  queue: ReviewQueue,
+  challenge: MathChallenge,
+  solved: boolean
+): ReviewQueue {
+  const clock = queue.clock + 1;
+  const key = getFactKey(challenge);
+  const existing = queue.items.find((item) => getFactKey(item.challenge) === key);
+  const others = queue.items.filter((item) => item !== existing);
+
+  if (!solved) {
+    const missed: ReviewItem = {
+      challenge: existing?.challenge ?? challenge,
+      box: 0,
+      dueAt: clock + REVIEW_INTERVALS[0],
+    };
+    return { clock, items: [...others, missed].slice(-MAX_REVIEW_ITEMS) };
+  }
+
+  if (!existing) {
+    return { ...queue, clock };
+  }
+
+  const box = existing.box + 1;
+  if (box >= REVIEW_INTERVALS.length) {
+    return { clock, items: others };
+  }
+
+  return { clock, items: [...others, { ...existing, box, dueAt: clock + REVIEW_INTERVALS[box] }] };
+}
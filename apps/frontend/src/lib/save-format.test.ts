@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { SAVE_VERSION, parseSave, serializeSave } from './save-format';
+import { createSession } from './test-fixtures';
+
+describe('parseSave', () => {
+  it('reads back what serializeSave wrote', () => {
+    const session = createSession();
+    expect(parseSave(serializeSave(session))).toEqual(session);
+  });
+
+  it('keeps clock times through a save', () => {
+    const session = createSession();
+    session.currentMap.mobs[0].challenge = {
+      id: 'challenge-clock',
+      operation: 'elapsed-time',
+      operands: [],
+      clock: { start: { hours: 3, minutes: 45 }, end: { hours: 5, minutes: 10 } },
+      correctAnswer: 85,
+      difficulty: 'easy',
+      reward: 10,
+    };
+    expect(parseSave(serializeSave(session))).toEqual(session);
+  });
+
+  it('upgrades version 1 saves, which were the bare session', () => {
+    const session = createSession();
+    expect(parseSave(JSON.stringify(session))).toEqual(session);
+  });
+
+  it('fills in fields added since the save was written', () => {
+    const old = JSON.parse(serializeSave(createSession()));
+    delete old.session.player.inventory;
+    delete old.session.player.playTimeByDay;
+    const session = parseSave(JSON.stringify(old));
+    expect(session.player.inventory).toEqual({ hints: 0, streakBoosts: 0, challengeSkips: 0 });
+    expect(session.player.playTimeByDay).toEqual({});
+  });
+
+  it('refuses saves from a newer game', () => {
+    const save = JSON.stringify({ version: SAVE_VERSION + 1, session: createSession() });
+    expect(() => parseSave(save)).toThrow(/newer/);
+  });
+
+  it('says which field failed validation', () => {
+    const old = JSON.parse(serializeSave(createSession()));
+    old.session.player.currency = -5;
+    expect(() => parseSave(JSON.stringify(old))).toThrow(/player\.currency/);
+  });
+
+  it('rejects payloads that are not saves', () => {
+    expect(() => parseSave('not json')).toThrow();
+    expect(() => parseSave('[]')).toThrow(/missing/);
+  });
+});
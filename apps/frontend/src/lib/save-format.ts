@@ -0,0 +1,91 @@
+import type { PlayerProfile } from './types';
+import { GameSession } from './types';
+
+// Bump when the saved shape changes, adding a migration from the previous version below
+export const SAVE_VERSION = 2;
+
+type RawSession = Record<string, unknown>;
+// A stored save as written by any version: `{ version, session }`, or for version 1 the session
+type RawSave = Record<string, unknown>;
+
+/**
+ * Upgrades from each version to the next, keyed by the version they upgrade from.
+ * Fields that only gained a schema default (coinMultiplierCharges, mobs, mastery, ...) need no
+ * migration: validation fills them in.
+ */
+const migrations: Record<number, (save: RawSave) => RawSave> = {
+  // Version 1 was the bare session, written before saves carried a version
+  1: (save) => ({ version: 2, session: save }),
+};
+
+export function serializeSave(session: GameSession): string {
+  return JSON.stringify({ version: SAVE_VERSION, session });
+}
+
+/**
+ * The summary of a session shown in player lists
+ */
+export function toPlayerProfile(session: GameSession): PlayerProfile {
+  return {
+    id: session.player.id,
+    name: session.player.name,
+    difficulty: session.currentMap.difficulty,
+    currency: session.player.currency,
+    lastPlayedAt: session.player.lastPlayedAt,
+  };
+}
+
+/**
+ * Parse a saved payload of any known version into a validated session.
+ * Throws with a readable reason when the payload is corrupt, invalid or from a newer game.
+ */
+export function parseSave(raw: string): GameSession {
+  let save = asRecord(JSON.parse(raw), 'save');
+  let version = typeof save.version === 'number' && 'session' in save ? save.version : 1;
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Unknown save version ${version}`);
+  }
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save version ${version} is newer than this game supports (${SAVE_VERSION})`);
+  }
+
+  for (; version < SAVE_VERSION; version++) {
+    save = migrations[version](save);
+  }
+
+  const session = asRecord(save.session, 'session');
+  const result = GameSession.safeParse(reviveDates(session));
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || 'session'}: ${issue.message}`);
+    throw new Error(`Save failed validation (${issues.join('; ')})`);
+  }
+  return result.data;
+}
+
+// JSON keeps dates as ISO strings
+function reviveDates(session: RawSession): RawSession {
+  const player = asRecord(session.player, 'player');
+  return {
+    ...session,
+    gameStartedAt: toDate(session.gameStartedAt),
+    player: {
+      ...player,
+      createdAt: toDate(player.createdAt),
+      lastPlayedAt: toDate(player.lastPlayedAt),
+    },
+  };
+}
+
+function toDate(value: unknown): unknown {
+  return typeof value === 'string' || typeof value === 'number' ? new Date(value) : value;
+}
+
+function asRecord(value: unknown, label: string): RawSession {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Save is missing its ${label}`);
+  }
+  return value as RawSession;
+}
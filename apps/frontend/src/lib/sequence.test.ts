@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getNextTerm, getSequenceSlips } from './sequence';
+
+describe('getNextTerm', () => {
+  it('continues skip counting and steady steps', () => {
+    expect(getNextTerm([2, 4, 6, 8])).toBe(10);
+    expect(getNextTerm([5, 10, 15, 20])).toBe(25);
+    expect(getNextTerm([3, 7, 11, 15])).toBe(19);
+  });
+
+  it('counts down as well as up', () => {
+    expect(getNextTerm([20, 17, 14, 11])).toBe(8);
+  });
+
+  it('keeps multiplying patterns that double or triple', () => {
+    expect(getNextTerm([3, 6, 12, 24])).toBe(48);
+    expect(getNextTerm([1, 3, 9, 27])).toBe(81);
+  });
+
+  it('follows gaps that grow steadily', () => {
+    expect(getNextTerm([1, 4, 9, 16])).toBe(25);
+    expect(getNextTerm([2, 3, 5, 8, 12])).toBe(17);
+  });
+
+  it('repeats a constant pattern', () => {
+    expect(getNextTerm([4, 4, 4])).toBe(4);
+  });
+});
+
+describe('getSequenceSlips', () => {
+  it('never offers the right answer or the same slip twice', () => {
+    const slips = getSequenceSlips([2, 4, 6, 8]);
+    expect(slips).not.toContain(10);
+    expect(new Set(slips).size).toBe(slips.length);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * The term that comes next in a number pattern. Patterns that multiply by the same number each
+ * time (doubling) keep multiplying; anything else is continued through its differences, which
+ * covers counting on by a step and patterns whose gaps grow steadily (1, 4, 9, 16).
+ */
+export function getNextTerm(terms: number[]): number {
+  const last = terms[terms.length - 1];
+  const ratio = terms[0] !== 0 ? terms[1] / terms[0] : undefined;
+  if (
+    ratio !== undefined &&
+    Number.isInteger(ratio) &&
+    ratio > 1 &&
+    terms.every((term, index) => index === 0 || term === terms[index - 1] * ratio)
+  ) {
+    return last * ratio;
+  }
+
+  // Each row of differences adds its last entry onto the row above
+  let row = terms;
+  let next = 0;
+  while (row.length > 1 && !row.every((value) => value === row[0])) {
+    next += row[row.length - 1];
+    row = row.slice(1).map((value, index) => value - row[index]);
+  }
+  return next + row[row.length - 1];
+}
+
+/**
+ * Answers a player is likely to reach by mistake: keeping the last gap, skipping a term, being
+ * one out, or repeating the last number
+ */
+export function getSequenceSlips(terms: number[]): number[] {
+  const next = getNextTerm(terms);
+  const last = terms[terms.length - 1];
+  const gap = last - terms[terms.length - 2];
+  const slips = [last + gap, next + gap, next + 1, next - 1, last];
+  return slips.filter((slip, index) => slip !== next && slips.indexOf(slip) === index);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { generateTileMap } from './game-logic';
+import { createCheckoutQuestion, getShopOffers, recordShopPurchase } from './shop';
+import type { DifficultyLevel, ShopItem } from './types';
+
+const hints: ShopItem = {
+  id: 'hint-pack',
+  name: 'Hint Pack',
+  description: '',
+  price: 50,
+  icon: '💡',
+  effect: { type: 'hints', amount: 3 },
+  unlocksAt: 'infant',
+};
+const skip: ShopItem = {
+  id: 'skip-challenge',
+  name: 'Challenge Skip',
+  description: '',
+  price: 200,
+  icon: '⏭️',
+  effect: { type: 'challenge-skips', amount: 1 },
+  stock: 1,
+  unlocksAt: 'beginner',
+};
+
+const createMap = (difficulty: DifficultyLevel) =>
+  generateTileMap('map-1', 8, 8, difficulty, { seed: 5 });
+
+describe('getShopOffers', () => {
+  it('locks items below the difficulty they unlock at', () => {
+    const [hintOffer, skipOffer] = getShopOffers([hints, skip], createMap('toddler'), 1000, true);
+    expect(hintOffer.status).toBe('available');
+    expect(skipOffer.status).toBe('locked');
+  });
+
+  it('sells out once the map stock is bought', () => {
+    const map = createMap('beginner');
+    expect(getShopOffers([skip], map, 1000, true)[0]).toMatchObject({
+      status: 'available',
+      remaining: 1,
+    });
+    recordShopPurchase(map, skip);
+    expect(getShopOffers([skip], map, 1000, true)[0]).toMatchObject({ status: 'sold-out', remaining: 0 });
+    // Stock limits start again on the next map
+    expect(getShopOffers([skip], createMap('beginner'), 1000, true)[0].status).toBe('available');
+  });
+
+  it('marks items the player cannot afford', () => {
+    const [offer] = getShopOffers([hints], createMap('beginner'), 10, true);
+    expect(offer.status).toBe('too-expensive');
+    expect(offer.remaining).toBeNull();
+  });
+
+  it('scales prices with the difficulty', () => {
+    expect(getShopOffers([hints], createMap('beginner'), 0, true)[0].listPrice).toBe(50);
+    expect(getShopOffers([hints], createMap('hard'), 0, true)[0].listPrice).toBe(200);
+  });
+
+  it('keeps catalog prices, with nothing on sale, without checkout practice', () => {
+    const offers = getShopOffers([hints, skip], createMap('expert'), 10000, false);
+    expect(offers.map((offer) => offer.price)).toEqual([50, 200]);
+    expect(offers.every((offer) => offer.discountPercent === 0)).toBe(true);
+  });
+
+  it('puts one item on sale from medium, by a whole number of coins', () => {
+    const offers = getShopOffers([hints, skip], createMap('expert'), 10000, true);
+    const onSale = offers.filter((offer) => offer.discountPercent > 0);
+    expect(onSale).toHaveLength(1);
+    expect(Number.isInteger(onSale[0].price)).toBe(true);
+    expect(onSale[0].price).toBeLessThan(onSale[0].listPrice);
+    expect(
+      getShopOffers([hints, skip], createMap('easy'), 10000, true).every(
+        (offer) => offer.discountPercent === 0
+      )
+    ).toBe(true);
+  });
+});
+
+describe('createCheckoutQuestion', () => {
+  const [offer] = getShopOffers([hints], createMap('beginner'), 500, true);
+
+  it('asks for the change from the smallest note over the price', () => {
+    const question = createCheckoutQuestion(offer, 500, () => 0);
+    expect(question).toMatchObject({ kind: 'change', paid: 100, price: 50, answer: 50 });
+  });
+
+  it('asks what is left when the note would not fit in the wallet', () => {
+    const question = createCheckoutQuestion(offer, 80, () => 0);
+    expect(question).toMatchObject({ kind: 'remaining', paid: 80, price: 50, answer: 30 });
+  });
+
+  it('spells out a discount so the sale price has to be worked out', () => {
+    const sale = { ...offer, discountPercent: 20, price: 40 };
+    const question = createCheckoutQuestion(sale, 80, () => 0.9);
+    expect(question.prompt).toContain('20% off');
+    expect(question.answer).toBe(40);
+  });
+});
@@ -0,0 +1,179 @@
+import type { DifficultyLevel, ShopItem, TileMap } from './types';
+import { DifficultyLevel as DifficultyLevels } from './types';
+import type { RandomSource } from './utils';
+import { createSeededRandom } from './utils';
+
+// With checkout practice on, catalog prices (set for beginner maps) follow the challenge rewards
+// up and down, so the sums get harder with the maps
+const priceScaleByDifficulty: Record<DifficultyLevel, number> = {
+  infant: 0.6,
+  toddler: 0.8,
+  beginner: 1,
+  easy: 1.5,
+  medium: 2.5,
+  hard: 4,
+  expert: 6,
+};
+
+// From this difficulty one item per map is on sale during checkout practice
+const DISCOUNTS_FROM: DifficultyLevel = 'medium';
+const DISCOUNT_PERCENTS = [10, 20, 25, 50];
+
+// Coin "notes" a player might pay with at the checkout, smallest first
+const PAYMENT_NOTES = [10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+
+// Why an item cannot be bought right now, if it can't
+export type ShopItemStatus = 'available' | 'locked' | 'sold-out' | 'too-expensive';
+
+export interface ShopOffer {
+  item: ShopItem;
+  status: ShopItemStatus;
+  // Catalog price, scaled for the map's difficulty during checkout practice
+  listPrice: number;
+  // Percentage off the list price; 0 when the item is not on sale
+  discountPercent: number;
+  // What the player actually pays
+  price: number;
+  // Left to buy on this map, or null when the item has no stock limit
+  remaining: number | null;
+}
+
+/**
+ * Whether an item is sold at a map difficulty
+ */
+export function isShopItemUnlocked(item: ShopItem, difficulty: DifficultyLevel): boolean {
+  const levels = DifficultyLevels.options;
+  return levels.indexOf(difficulty) >= levels.indexOf(item.unlocksAt);
+}
+
+/**
+ * How many more of an item can be bought on a map, or null when its stock is unlimited
+ */
+export function getRemainingStock(item: ShopItem, map: TileMap): number | null {
+  if (item.stock === undefined) {
+    return null;
+  }
+  // Maps from before shop stock have no purchases recorded
+  return Math.max(0, item.stock - (map.shopPurchases?.[item.id] ?? 0));
+}
+
+/**
+ * An item's catalog price scaled for a difficulty, in whole coins
+ */
+export function getScaledPrice(item: ShopItem, difficulty: DifficultyLevel): number {
+  return Math.max(1, Math.round(item.price * priceScaleByDifficulty[difficulty]));
+}
+
+/**
+ * Every catalog item with its price and whether the player can buy it on the current map.
+ * Prices only scale with difficulty, and items only go on sale, during checkout practice;
+ * otherwise every item costs its catalog price.
+ */
+export function getShopOffers(
+  items: ShopItem[],
+  map: TileMap,
+  currency: number,
+  checkoutPractice: boolean
+): ShopOffer[] {
+  const sale = checkoutPractice ? pickSale(items, map) : null;
+  return items.map((item) => {
+    const remaining = getRemainingStock(item, map);
+    const listPrice = checkoutPractice ? getScaledPrice(item, map.difficulty) : item.price;
+    const discountPercent = item.id === sale?.itemId ? getDiscount(listPrice, sale.random) : 0;
+    const price = listPrice - (listPrice * discountPercent) / 100;
+
+    let status: ShopItemStatus = 'available';
+    if (!isShopItemUnlocked(item, map.difficulty)) {
+      status = 'locked';
+    } else if (remaining === 0) {
+      status = 'sold-out';
+    } else if (currency < price) {
+      status = 'too-expensive';
+    }
+    return { item, status, remaining, listPrice, discountPercent, price };
+  });
+}
+
+/**
+ * Note a purchase against the map's stock
+ */
+export function recordShopPurchase(map: TileMap, item: ShopItem) {
+  map.shopPurchases = { ...map.shopPurchases, [item.id]: (map.shopPurchases?.[item.id] ?? 0) + 1 };
+}
+
+/**
+ * Choose the map's sale item, the same one each time the shop opens on that map
+ */
+function pickSale(
+  items: ShopItem[],
+  map: TileMap
+): { itemId: string; random: RandomSource } | null {
+  const levels = DifficultyLevels.options;
+  const onSale = items.filter((item) => isShopItemUnlocked(item, map.difficulty));
+  if (levels.indexOf(map.difficulty) < levels.indexOf(DISCOUNTS_FROM) || onSale.length === 0) {
+    return null;
+  }
+  // Maps from before seeded generation all share one sale
+  const random = createSeededRandom(map.seed ?? 0);
+  return { itemId: onSale[Math.floor(random() * onSale.length)].id, random };
+}
+
+/**
+ * A discount that leaves a whole number of coins, or 0 when none does
+ */
+function getDiscount(listPrice: number, random: RandomSource): number {
+  const whole = DISCOUNT_PERCENTS.filter((percent) => (listPrice * percent) % 100 === 0);
+  return whole.length > 0 ? whole[Math.floor(random() * whole.length)] : 0;
+}
+
+export type CheckoutQuestionKind = 'remaining' | 'change';
+
+// A sum to work out before a checkout purchase goes through
+export interface CheckoutQuestion {
+  id: string;
+  kind: CheckoutQuestionKind;
+  // The coins the sum starts from: the whole wallet, or the note handed over
+  paid: number;
+  price: number;
+  answer: number;
+  prompt: string;
+}
+
+/**
+ * Ask how many coins are left after buying, or how much change comes back from a round
+ * payment. Sale items spell out the discount, so the sale price has to be worked out too.
+ */
+export function createCheckoutQuestion(
+  offer: ShopOffer,
+  currency: number,
+  random: RandomSource = Math.random
+): CheckoutQuestion {
+  const { item, listPrice, discountPercent, price } = offer;
+  const id = `checkout-${item.id}-${Date.now().toString(36)}`;
+  const cost =
+    discountPercent > 0
+      ? `${item.name} costs ${listPrice} coins, but today it is ${discountPercent}% off!`
+      : `${item.name} costs ${price} coins.`;
+
+  // Pay with the smallest note that leaves some change, if the wallet covers it
+  const note = PAYMENT_NOTES.find((value) => value > price);
+  if (note !== undefined && note <= currency && random() < 0.5) {
+    return {
+      id,
+      kind: 'change',
+      paid: note,
+      price,
+      answer: note - price,
+      prompt: `${cost}\nYou pay with ${note} coins. How much change do you get?`,
+    };
+  }
+
+  return {
+    id,
+    kind: 'remaining',
+    paid: currency,
+    price,
+    answer: currency - price,
+    prompt: `${cost}\nYou have ${currency} coins. How many will you have left?`,
+  };
+}
@@ -0,0 +1,55 @@
+import { generateTileMap } from './game-logic';
+import { createReviewQueue } from './review';
+import type { ChallengeAttempt, GameSession } from './types';
+
+/**
+ * A correct "answer + 0" attempt for tests, told apart by its answer
+ */
+export function createAttempt(playerId: string, answer: number): ChallengeAttempt {
+  return {
+    challengeId: `challenge-${answer}`,
+    playerId,
+    operation: 'addition',
+    difficulty: 'easy',
+    fact: `${answer} + 0 = ?`,
+    operands: [answer, 0],
+    submittedAnswer: answer,
+    isCorrect: true,
+    timeSpent: 2,
+    attemptsCount: 1,
+    timestamp: new Date('2026-01-02T03:04:05.000Z'),
+  };
+}
+
+/**
+ * A saved game for tests: player-1 on a small seeded map
+ */
+export function createSession(): GameSession {
+  const map = generateTileMap('map-1', 16, 16, 'easy', { seed: 7 });
+  const now = new Date('2026-01-02T03:04:05.000Z');
+  return {
+    player: {
+      id: 'player-1',
+      name: 'Ada',
+      currentPosition: map.startPosition,
+      currentMapId: map.id,
+      currency: 12,
+      completedMaps: [],
+      totalChallengesCompleted: 3,
+      currentStreak: 1,
+      bestStreak: 2,
+      createdAt: now,
+      lastPlayedAt: now,
+      coinMultiplierCharges: 0,
+      inventory: { hints: 1, streakBoosts: 0, challengeSkips: 0 },
+      checkoutPractice: false,
+      savings: { balance: 0, principal: 0 },
+      mastery: {},
+      reviewQueue: createReviewQueue(),
+      playTimeByDay: {},
+    },
+    currentMap: map,
+    gameStartedAt: now,
+    isPaused: false,
+  };
+}
@@ -1,17 +1,75 @@
 import { z } from 'zod';
 
+// The four basic operators, usable on their own or inside a longer expression
+export const ArithmeticOperation = z.enum(['addition', 'subtraction', 'multiplication', 'division']);
+export type ArithmeticOperation = z.infer<typeof ArithmeticOperation>;
+
 // Math operations supported by the game
-export const MathOperation = z.enum(['addition', 'subtraction', 'multiplication', 'division']);
+export const MathOperation = z.enum([
+  ...ArithmeticOperation.options,
+  'order-of-operations',
+  'fraction-addition',
+  'fraction-subtraction',
+  'fraction-simplification',
+  'decimal-addition',
+  'decimal-subtraction',
+  'money-counting',
+  'clock-reading',
+  'elapsed-time',
+  'number-pattern',
+]);
 export type MathOperation = z.infer<typeof MathOperation>;
 
+// Money problems either total a set of coins and bills, or pick coins that pay a price
+export const MoneyTask = z.enum(['count', 'pay']);
+export type MoneyTask = z.infer<typeof MoneyTask>;
+
+// A time shown on an analog clock face, with hours from 1 to 12
+export const ClockTime = z.object({
+  hours: z.number().int().min(1).max(12),
+  minutes: z.number().int().min(0).max(59),
+});
+export type ClockTime = z.infer<typeof ClockTime>;
+
+// The clocks in a clock problem: the one to read, or the start and end of an elapsed time
+export const ClockFaces = z.object({
+  start: ClockTime,
+  end: ClockTime.optional(),
+});
+export type ClockFaces = z.infer<typeof ClockFaces>;
+
+// Rules behind "what comes next" number patterns
+export const SequencePattern = z.enum(['skip-counting', 'arithmetic', 'doubling', 'quadratic']);
+export type SequencePattern = z.infer<typeof SequencePattern>;
+
+// How an answer is written: whole numbers, fractions (3/4), decimals (0.75), times (3:45)
+// or dollars ($34.86)
+export const AnswerFormat = z.enum(['integer', 'fraction', 'decimal', 'time', 'money']);
+export type AnswerFormat = z.infer<typeof AnswerFormat>;
+
+// Exact fraction; the sign lives on the numerator
+export const Rational = z.object({
+  numerator: z.number().int(),
+  denominator: z.number().int().positive(),
+});
+export type Rational = z.infer<typeof Rational>;
+
 // Difficulty levels that scale with map progression
 export const DifficultyLevel = z.enum(['infant', 'toddler', 'beginner', 'easy', 'medium', 'hard', 'expert']);
 export type DifficultyLevel = z.infer<typeof DifficultyLevel>;
 
 // Types of tiles on the game map
-export const TileType = z.enum(['empty', 'challenge', 'boss', 'blocked']);
+export const TileType = z.enum(['empty', 'challenge', 'boss', 'blocked', 'door', 'key', 'chest']);
 export type TileType = z.infer<typeof TileType>;
 
+// Algorithms available for carving map layouts
+export const MazeAlgorithm = z.enum(['backtracker', 'prim', 'kruskal', 'rooms', 'caves']);
+export type MazeAlgorithm = z.infer<typeof MazeAlgorithm>;
+
+// Colors pairing keys with the doors they open
+export const KeyColor = z.enum(['red', 'blue', 'green', 'yellow']);
+export type KeyColor = z.infer<typeof KeyColor>;
+
 // Mob types that determine minigame and sprite
 export const MobType = z.enum(['slime', 'skeleton', 'orc', 'bat']);
 export type MobType = z.infer<typeof MobType>;
@@ -27,18 +85,90 @@ export const Position = z.object({
 });
 export type Position = z.infer<typeof Position>;
 
+// Expression tree for mixed-operator problems such as 3 + 4 × (5 - 2)
+export type Expression =
+  | { kind: 'number'; value: number }
+  | { kind: 'operation'; operation: ArithmeticOperation; left: Expression; right: Expression };
+export const Expression: z.ZodType<Expression> = z.lazy(() =>
+  z.union([
+    z.object({ kind: z.literal('number'), value: z.number() }),
+    z.object({ kind: z.literal('operation'), operation: ArithmeticOperation, left: Expression, right: Expression }),
+  ])
+);
+
 // Math challenge definition
-export const MathChallenge = z.object({
-  id: z.string(),
-  operation: MathOperation,
-  operands: z.array(z.number()).min(2),
-  correctAnswer: z.number(),
-  difficulty: DifficultyLevel,
-  timeLimit: z.number().positive().optional(), // seconds
-  reward: z.number().int().positive(), // currency amount
-});
+export const MathChallenge = z
+  .object({
+    id: z.string(),
+    operation: MathOperation,
+    // With more than two operands and no expression, the operation is applied left to right (5 + 3 + 8).
+    // Fraction problems list numerator/denominator pairs: 1/4 + 2/3 is [1, 4, 2, 3].
+    // Clock problems have none; their times are in clock
+    operands: z.array(z.number()),
+    // Set for order-of-operations problems; operands then lists its numbers left to right
+    expression: Expression.optional(),
+    // Index of the operand hidden from the player (3 + ? = 7); the result is asked for when unset
+    missingOperand: z.number().int().min(0).optional(),
+    // Time answers count minutes, so 3:45 is 225 and an hour and a half is 90
+    correctAnswer: z.number(),
+    // Exact answer for fraction and decimal problems; correctAnswer then holds its decimal value
+    answer: Rational.optional(),
+    // Set for money-counting problems, whose operands are coin and bill values in cents.
+    // When paying, the operands are one way to pay and the price is their total.
+    moneyTask: MoneyTask.optional(),
+    // Set for number-pattern problems, whose operands are the terms shown; the next term is asked for
+    pattern: SequencePattern.optional(),
+    // Set for clock-reading and elapsed-time problems
+    clock: ClockFaces.optional(),
+    difficulty: DifficultyLevel,
+    timeLimit: z.number().positive().optional(), // seconds
+    reward: z.number().int().positive(), // currency amount
+  })
+  .refine(
+    (challenge) => challenge.clock !== undefined || challenge.operands.length >= 2,
+    'Challenges other than clock problems need at least two operands'
+  );
 export type MathChallenge = z.infer<typeof MathChallenge>;
 
+// Shop items a player can hold on to until they need them
+export const Inventory = z.object({
+  // Each charge reveals the hint for one challenge
+  hints: z.number().int().min(0).default(0),
+  // Each boost doubles the next streak bonus
+  streakBoosts: z.number().int().min(0).default(0),
+  // Each skip gets the player past one mob without solving its challenge
+  challengeSkips: z.number().int().min(0).default(0),
+});
+export type Inventory = z.infer<typeof Inventory>;
+export type InventoryItem = keyof Inventory;
+
+// Coins put away in the bank, earning interest each time a map is completed
+export const SavingsAccount = z.object({
+  balance: z.number().int().min(0).default(0),
+  // Coins deposited and not taken out again; simple interest is paid on this
+  principal: z.number().int().min(0).default(0),
+  // Shop item the player is saving up for
+  goalItemId: z.string().optional(),
+});
+export type SavingsAccount = z.infer<typeof SavingsAccount>;
+
+// Kinds of loot a treasure chest can hold
+export const LootKind = z.enum([
+  'coins',
+  'coinMultiplierCharges',
+  'hints',
+  'streakBoosts',
+  'challengeSkips',
+]);
+export type LootKind = z.infer<typeof LootKind>;
+
+// Contents of a treasure chest
+export const ChestLoot = z.object({
+  kind: LootKind,
+  amount: z.number().int().positive(),
+});
+export type ChestLoot = z.infer<typeof ChestLoot>;
+
 // Individual tile on the map
 export const Tile = z.object({
   position: Position,
@@ -47,6 +177,14 @@ export const Tile = z.object({
   // Boss tile has a challenge (doesn't move like mobs)
   bossChallenge: MathChallenge.optional(),
   isBossDefeated: z.boolean().default(false),
+  // Door and key tiles share a color; a closed door is inaccessible until its key is held
+  keyColor: KeyColor.optional(),
+  // Key and chest tiles guard their contents with a challenge
+  challenge: MathChallenge.optional(),
+  isCollected: z.boolean().optional(),
+  loot: ChestLoot.optional(),
+  // Fog of war: tiles the player has seen stay revealed
+  isExplored: z.boolean().optional(),
 });
 export type Tile = z.infer<typeof Tile>;
 
@@ -61,6 +199,15 @@ export const Mob = z.object({
 });
 export type Mob = z.infer<typeof Mob>;
 
+// Per-player adjustments to the challenge mix, derived from their attempt history
+export const ChallengeTuning = z.object({
+  // Multipliers on the difficulty's operation weights (more practice where it is needed)
+  operationWeights: z.record(MathOperation, z.number().positive()),
+  // Levels easier (-1) or harder (+1) to pick an operation's numbers from
+  operandLevelShift: z.record(MathOperation, z.number().int().min(-1).max(1)),
+});
+export type ChallengeTuning = z.infer<typeof ChallengeTuning>;
+
 // Complete tile map
 export const TileMap = z.object({
   id: z.string(),
@@ -71,10 +218,43 @@ export const TileMap = z.object({
   bossPosition: Position,
   startPosition: Position,
   mobs: z.array(Mob).default([]),
+  heldKeys: z.array(KeyColor).default([]),
+  // When on, only tiles near the player (and ones already explored) are drawn
+  fogOfWar: z.boolean().default(false),
   isCompleted: z.boolean().default(false),
+  // Seed the map was generated from; regenerating with it reproduces the same map
+  seed: z.number().int().min(0).optional(),
+  mazeAlgorithm: MazeAlgorithm.optional(),
+  // Tuning the challenges were generated with; needed alongside the seed to reproduce them
+  tuning: ChallengeTuning.optional(),
+  // Shop items bought while on this map, by item id; stock limits restock with each new map
+  shopPurchases: z.record(z.string(), z.number().int().min(0)).default({}),
 });
 export type TileMap = z.infer<typeof TileMap>;
 
+// Running estimate of how well a player knows one operation
+export const OperationMastery = z.object({
+  score: z.number().min(0).max(1), // smoothed success rate; quick answers count more than slow ones
+  attempts: z.number().int().min(0),
+  averageTime: z.number().min(0), // seconds, smoothed
+});
+export type OperationMastery = z.infer<typeof OperationMastery>;
+
+// A missed fact waiting to be practised again (Leitner boxes)
+export const ReviewItem = z.object({
+  challenge: MathChallenge,
+  box: z.number().int().min(0), // 0 = just missed; each correct answer moves it up a box
+  dueAt: z.number().int().min(0), // review clock reading at which it comes back
+});
+export type ReviewItem = z.infer<typeof ReviewItem>;
+
+// Missed facts plus a clock counting challenges answered, which spaces the reviews
+export const ReviewQueue = z.object({
+  clock: z.number().int().min(0),
+  items: z.array(ReviewItem),
+});
+export type ReviewQueue = z.infer<typeof ReviewQueue>;
+
 // Player state and progress
 export const PlayerState = z.object({
   id: z.string(),
@@ -90,6 +270,16 @@ export const PlayerState = z.object({
   lastPlayedAt: z.date(),
   // Power-ups
   coinMultiplierCharges: z.number().int().min(0).default(0),
+  inventory: Inventory.default({}),
+  // Buying in the shop first asks for the change owed or the coins left over
+  checkoutPractice: z.boolean().default(false),
+  savings: SavingsAccount.default({}),
+  // Adaptive difficulty estimates, keyed by operation
+  mastery: z.record(MathOperation, OperationMastery).default({}),
+  // Missed facts that come back in mob and boss challenges until learned
+  reviewQueue: ReviewQueue.default({ clock: 0, items: [] }),
+  // Seconds spent playing, keyed by local day (YYYY-MM-DD)
+  playTimeByDay: z.record(z.string(), z.number().min(0)).default({}),
 });
 export type PlayerState = z.infer<typeof PlayerState>;
 
@@ -102,10 +292,24 @@ export const GameSession = z.object({
 });
 export type GameSession = z.infer<typeof GameSession>;
 
+// A saved player as listed on the profile picker; each keeps its own session
+export const PlayerProfile = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  difficulty: DifficultyLevel,
+  currency: z.number().int().min(0),
+  lastPlayedAt: z.date(),
+});
+export type PlayerProfile = z.infer<typeof PlayerProfile>;
+
 // Challenge attempt result
 export const ChallengeAttempt = z.object({
   challengeId: z.string(),
   playerId: z.string(),
+  operation: MathOperation,
+  difficulty: DifficultyLevel,
+  fact: z.string(), // the problem as shown, e.g. "7 × 8 = ?"
+  operands: z.array(z.number()),
   submittedAnswer: z.number(),
   isCorrect: z.boolean(),
   timeSpent: z.number().positive(), // seconds
@@ -113,3 +317,36 @@ export const ChallengeAttempt = z.object({
   timestamp: z.date(),
 });
 export type ChallengeAttempt = z.infer<typeof ChallengeAttempt>;
+
+// An attempt read back from JSON, where the timestamp is a string
+export const StoredChallengeAttempt = ChallengeAttempt.extend({ timestamp: z.coerce.date() });
+
+// What buying a shop item does: a named effect handler and how much it gives
+export const ShopEffect = z.object({
+  type: z.string().min(1),
+  amount: z.number().int().positive(),
+});
+export type ShopEffect = z.infer<typeof ShopEffect>;
+
+// An item in the shop catalog
+export const ShopItem = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Item ids use lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  description: z.string(),
+  price: z.number().int().positive(),
+  icon: z.string().min(1),
+  effect: ShopEffect,
+  // Most that can be bought on one map; unlimited when left out
+  stock: z.number().int().positive().optional(),
+  // Lowest map difficulty the item is sold at
+  unlocksAt: DifficultyLevel.default('infant'),
+});
+export type ShopItem = z.infer<typeof ShopItem>;
+
+export const ShopCatalog = z
+  .object({ items: z.array(ShopItem) })
+  .refine(
+    (catalog) => new Set(catalog.items.map((item) => item.id)).size === catalog.items.length,
+    'Shop item ids must be unique'
+  );
+export type ShopCatalog = z.infer<typeof ShopCatalog>;
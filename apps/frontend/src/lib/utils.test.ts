@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { rational } from './rational';
+import { getChallengeAnswerFormat, isCorrectAnswer, parseAnswer } from './utils';
+
+describe('isCorrectAnswer', () => {
+  it('checks whole-number answers', () => {
+    const challenge = { operation: 'addition', correctAnswer: 7 } as const;
+    expect(isCorrectAnswer(challenge, rational(7))).toBe(true);
+    expect(isCorrectAnswer(challenge, rational(8))).toBe(false);
+  });
+
+  it('accepts equivalent fractions and decimals', () => {
+    const challenge = {
+      operation: 'fraction-addition',
+      correctAnswer: 0.5,
+      answer: rational(1, 2),
+    } as const;
+    expect(isCorrectAnswer(challenge, rational(1, 2))).toBe(true);
+    expect(isCorrectAnswer(challenge, rational(2, 4))).toBe(true);
+    expect(isCorrectAnswer(challenge, rational(5, 10))).toBe(true);
+    expect(isCorrectAnswer(challenge, rational(1, 3))).toBe(false);
+  });
+
+  it('compares decimals exactly', () => {
+    const challenge = {
+      operation: 'decimal-addition',
+      correctAnswer: 0.3,
+      answer: rational(3, 10),
+    } as const;
+    expect(isCorrectAnswer(challenge, parseAnswer('0.3', 'decimal')!)).toBe(true);
+    expect(isCorrectAnswer(challenge, parseAnswer('0.30', 'decimal')!)).toBe(true);
+    expect(isCorrectAnswer(challenge, parseAnswer('0.31', 'decimal')!)).toBe(false);
+  });
+
+  it('wants simplification problems answered in lowest terms', () => {
+    const challenge = {
+      operation: 'fraction-simplification',
+      correctAnswer: 0.5,
+      answer: rational(1, 2),
+    } as const;
+    expect(isCorrectAnswer(challenge, rational(1, 2))).toBe(true);
+    expect(isCorrectAnswer(challenge, rational(2, 4))).toBe(false);
+  });
+});
+
+describe('parseAnswer', () => {
+  it('reads times as minutes', () => {
+    expect(parseAnswer('3:45', 'time')).toEqual(rational(225));
+    expect(parseAnswer('3.45', 'time')).toBeNull();
+  });
+
+  it('reads dollars as cents', () => {
+    expect(parseAnswer('$34.86', 'money')).toEqual(rational(3486));
+    expect(parseAnswer('34.8', 'money')).toBeNull();
+  });
+});
+
+describe('getChallengeAnswerFormat', () => {
+  it('asks for dollars once there are bills to count', () => {
+    const format = (operands: number[]) =>
+      getChallengeAnswerFormat({ operation: 'money-counting', operands, moneyTask: 'count' });
+    expect(format([25, 10])).toBe('integer');
+    expect(format([100, 25])).toBe('money');
+  });
+});
@@ -1,10 +1,74 @@
-import type { MathOperation, DifficultyLevel, Position, Direction } from './types';
+import type {
+  MathOperation,
+  ArithmeticOperation,
+  AnswerFormat,
+  MathChallenge,
+  DifficultyLevel,
+  Position,
+  Direction,
+  Rational,
+} from './types';
+import { OPERATOR_SYMBOLS, applyOperation, formatExpression } from './expression';
+import {
+  addRationals,
+  decimalToRational,
+  formatRational,
+  gcd,
+  isLowestTerms,
+  parseRational,
+  rational,
+  rationalToNumber,
+  rationalsEqual,
+  simplifyRational,
+  subtractRationals,
+} from './rational';
+import { formatMoney, isBill, parseMoney } from './money';
+import { formatTime, isClockOperation, parseTime } from './clock';
+import { getNextTerm } from './sequence';
+
+/**
+ * Source of uniformly distributed numbers in [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a fresh seed for map generation
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Create a deterministic PRNG (mulberry32) so the same seed always yields the same sequence
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
 
 /**
  * Generate a random integer between min and max (inclusive)
  */
-export function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function randomInt(min: number, max: number, random: RandomSource = Math.random): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/**
+ * Return a shuffled copy of the given items (Fisher-Yates)
+ */
+export function shuffle<T>(items: readonly T[], random: RandomSource = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(0, i, random);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
 }
 
 /**
@@ -37,10 +101,36 @@ export function isValidPosition(position: Position, mapWidth: number, mapHeight:
   return position.x >= 0 && position.x < mapWidth && position.y >= 0 && position.y < mapHeight;
 }
 
+// Share of problems written to go below zero; none before hard so younger players never meet negatives
+const negativeNumberChance: Record<DifficultyLevel, number> = {
+  infant: 0,
+  toddler: 0,
+  beginner: 0,
+  easy: 0,
+  medium: 0,
+  hard: 0.3,
+  expert: 0.35,
+};
+
+/**
+ * Whether answers at this difficulty can be negative
+ */
+export function allowsNegativeNumbers(difficulty: DifficultyLevel): boolean {
+  return negativeNumberChance[difficulty] > 0;
+}
+
 /**
- * Generate operands for math challenges based on difficulty
+ * Generate operands for math challenges based on difficulty.
+ * Addition and subtraction can chain more than two operands; subtraction chains never go below zero.
+ * Two-number subtraction only goes below zero where the difficulty allows negatives, and expert
+ * problems may also contain a negative number. Fractions come back as numerator/denominator pairs.
  */
-export function generateOperands(operation: MathOperation, difficulty: DifficultyLevel): number[] {
+export function generateOperands(
+  operation: MathOperation,
+  difficulty: DifficultyLevel,
+  random: RandomSource = Math.random,
+  count = 2
+): number[] {
   const ranges: Record<DifficultyLevel, { min: number; max: number }> = {
     infant: { min: 0, max: 5 },
     toddler: { min: 0, max: 9 },
@@ -52,54 +142,286 @@ export function generateOperands(operation: MathOperation, difficulty: Difficult
   };
 
   const range = ranges[difficulty];
+  const isAdvanced = difficulty === 'hard' || difficulty === 'expert';
+  const goesNegative = () => random() < negativeNumberChance[difficulty];
+  // Expert problems can also be written with a negative number in them (-6 + 15, 4 × -3)
+  const negateOne = (operands: number[]): number[] => {
+    if (difficulty !== 'expert' || count !== 2 || !goesNegative()) {
+      return operands;
+    }
+    const index = randomInt(0, operands.length - 1, random);
+    return operands.map((operand, i) => (i === index ? -operand : operand));
+  };
 
   switch (operation) {
     case 'addition':
-    case 'subtraction':
-      return [randomInt(range.min, range.max), randomInt(range.min, range.max)];
+      return negateOne(Array.from({ length: count }, () => randomInt(range.min, range.max, random)));
+    case 'subtraction': {
+      if (count > 2) {
+        // Start high enough that taking everything else away still leaves something
+        const takeaways = Array.from({ length: count - 1 }, () => randomInt(range.min, range.max, random));
+        const total = takeaways.reduce((sum, value) => sum + value, 0);
+        return [total + randomInt(range.min, range.max, random), ...takeaways];
+      }
+      // Larger number first, unless this one is meant to go below zero
+      const [smaller, larger] = [
+        randomInt(range.min, range.max, random),
+        randomInt(range.min, range.max, random),
+      ].sort((a, b) => a - b);
+      return smaller !== larger && goesNegative() ? [smaller, larger] : [larger, smaller];
+    }
     case 'multiplication':
       // Keep multiplication smaller to avoid huge numbers
       const multRange = { min: range.min, max: Math.min(range.max, 12) };
-      return [randomInt(multRange.min, multRange.max), randomInt(multRange.min, multRange.max)];
+      return negateOne([
+        randomInt(multRange.min, multRange.max, random),
+        randomInt(multRange.min, multRange.max, random),
+      ]);
     case 'division':
-      // For division, ensure clean division
-      const divisor = randomInt(range.min, Math.min(range.max, 12));
-      const quotient = randomInt(range.min, range.max);
-      return [divisor * quotient, divisor];
+      // For division, ensure clean division; the youngest ranges start at 0, which is no divisor
+      const divisor = randomInt(Math.max(range.min, 1), Math.min(range.max, 12), random);
+      const quotient = randomInt(range.min, range.max, random);
+      return negateOne([divisor * quotient, divisor]);
+    case 'fraction-addition':
+    case 'fraction-subtraction': {
+      // Like denominators first; hard and expert mix unlike ones
+      const maxDenominator = Math.min(Math.max(range.max, 4), 12);
+      const firstDenominator = randomInt(2, maxDenominator, random);
+      const secondDenominator = isAdvanced ? randomInt(2, maxDenominator, random) : firstDenominator;
+      const first = [randomInt(1, firstDenominator - 1, random), firstDenominator];
+      const second = [randomInt(1, secondDenominator - 1, random), secondDenominator];
+      // Take the smaller fraction away from the larger one
+      const swap = operation === 'fraction-subtraction' && first[0] * second[1] < second[0] * first[1];
+      return swap ? [...second, ...first] : [...first, ...second];
+    }
+    case 'fraction-simplification': {
+      const denominator = randomInt(2, Math.min(Math.max(range.max, 4), 12), random);
+      const numerators = Array.from({ length: denominator - 1 }, (_, index) => index + 1).filter(
+        (numerator) => gcd(numerator, denominator) === 1
+      );
+      const numerator = numerators[randomInt(0, numerators.length - 1, random)];
+      const factor = randomInt(2, isAdvanced ? 6 : 4, random);
+      return [numerator * factor, denominator * factor];
+    }
+    case 'decimal-addition':
+    case 'decimal-subtraction': {
+      // Tenths first; hard and expert use hundredths
+      const scale = isAdvanced ? 100 : 10;
+      const values = [randomInt(1, range.max * scale, random) / scale, randomInt(1, range.max * scale, random) / scale];
+      return operation === 'decimal-subtraction' ? values.sort((a, b) => b - a) : values;
+    }
     default:
       throw new Error(`Unsupported operation: ${operation}`);
   }
 }
 
 /**
- * Calculate the correct answer for a math challenge
+ * Calculate the correct answer for a math challenge.
+ * Operands are combined left to right; when an operand is hidden, that operand is what the player has to find.
+ * Order-of-operations problems carry an expression tree and are evaluated with evaluateExpression instead,
+ * and clock problems carry their times and are answered with calculateClockAnswer.
+ * Money problems add up their coins and bills and number patterns ask for the next term.
+ */
+export function calculateAnswer(operation: MathOperation, operands: number[], missingOperand?: number): number {
+  if (missingOperand !== undefined) {
+    return operands[missingOperand];
+  }
+
+  if (operation === 'order-of-operations') {
+    throw new Error('Order-of-operations answers need the expression tree');
+  }
+
+  if (isClockOperation(operation)) {
+    throw new Error('Clock answers need the clock times');
+  }
+
+  if (operation === 'number-pattern') {
+    return getNextTerm(operands);
+  }
+
+  if (getAnswerFormat(operation) !== 'integer') {
+    return rationalToNumber(calculateExactAnswer(operation, operands));
+  }
+
+  const arithmetic = getArithmeticOperation(operation);
+  return operands.slice(1).reduce((total, operand) => applyOperation(arithmetic, total, operand), operands[0]);
+}
+
+/**
+ * Calculate the exact, simplified answer for a fraction or decimal challenge
  */
-export function calculateAnswer(operation: MathOperation, operands: number[]): number {
-  const [a, b] = operands;
+export function calculateExactAnswer(operation: MathOperation, operands: number[]): Rational {
   switch (operation) {
-    case 'addition':
-      return a + b;
-    case 'subtraction':
-      return a - b;
-    case 'multiplication':
-      return a * b;
-    case 'division':
-      return a / b;
+    case 'fraction-addition':
+    case 'fraction-subtraction': {
+      const [first, ...rest] = toFractions(operands);
+      const combine = operation === 'fraction-addition' ? addRationals : subtractRationals;
+      return rest.reduce(combine, simplifyRational(first));
+    }
+    case 'fraction-simplification':
+      return simplifyRational(toFractions(operands)[0]);
+    case 'decimal-addition':
+    case 'decimal-subtraction': {
+      const [first, ...rest] = operands.map(decimalToRational);
+      const combine = operation === 'decimal-addition' ? addRationals : subtractRationals;
+      return rest.reduce(combine, simplifyRational(first));
+    }
     default:
-      throw new Error(`Unsupported operation: ${operation}`);
+      throw new Error(`Operation ${operation} has no exact answer`);
   }
 }
 
 /**
- * Format a math challenge as a human-readable string
+ * How the answer to an operation is written
  */
-export function formatChallenge(operation: MathOperation, operands: number[]): string {
-  const [a, b] = operands;
-  const symbols: Record<MathOperation, string> = {
-    addition: '+',
-    subtraction: '-',
-    multiplication: '×',
-    division: '÷',
-  };
-  return `${a} ${symbols[operation]} ${b} = ?`;
+export function getAnswerFormat(operation: MathOperation): AnswerFormat {
+  if (isClockOperation(operation)) {
+    return 'time';
+  }
+  if (operation.startsWith('fraction-')) {
+    return 'fraction';
+  }
+  if (operation.startsWith('decimal-')) {
+    return 'decimal';
+  }
+  return 'integer';
+}
+
+/**
+ * How the answer to this particular challenge is written. Counting money switches from cents to
+ * dollars once there are bills in the pile, so 3486¢ is typed as $34.86.
+ */
+export function getChallengeAnswerFormat(
+  challenge: Pick<MathChallenge, 'operation' | 'operands' | 'moneyTask'>
+): AnswerFormat {
+  if (challenge.moneyTask === 'count' && challenge.operands.some(isBill)) {
+    return 'money';
+  }
+  return getAnswerFormat(challenge.operation);
+}
+
+/**
+ * Parse a typed answer in the given format. Times come back as whole minutes and dollars as
+ * cents, so every answer can be checked and recorded as a number. Returns null when the text does
+ * not fit the format.
+ */
+export function parseAnswer(input: string, format: AnswerFormat): Rational | null {
+  if (format === 'time') {
+    const minutes = parseTime(input);
+    return minutes === null ? null : rational(minutes, 1);
+  }
+  if (format === 'money') {
+    const cents = parseMoney(input);
+    return cents === null ? null : rational(cents, 1);
+  }
+  return parseRational(input);
+}
+
+/**
+ * Check a submitted answer against the challenge, accepting equivalent forms (2/4, 1/2 and 0.5).
+ * Simplification problems must be answered in lowest terms.
+ */
+export function isCorrectAnswer(
+  challenge: Pick<MathChallenge, 'operation' | 'correctAnswer' | 'answer'>,
+  submitted: Rational
+): boolean {
+  const expected = challenge.answer ?? decimalToRational(challenge.correctAnswer);
+  if (!rationalsEqual(submitted, expected)) {
+    return false;
+  }
+  return challenge.operation !== 'fraction-simplification' || isLowestTerms(submitted);
+}
+
+/**
+ * Format a math challenge as a human-readable string, e.g. "3 + 4 = ?", "3 + ? = 7",
+ * "(2 + 3) × 4 = ?" or "2, 4, 6, 8, ?"
+ */
+export function formatChallenge(
+  challenge: Pick<
+    MathChallenge,
+    'operation' | 'operands' | 'missingOperand' | 'expression' | 'moneyTask' | 'clock'
+  >
+): string {
+  const { operation, operands, missingOperand, expression, moneyTask, clock } = challenge;
+  if (expression) {
+    return `${formatExpression(expression)} = ?`;
+  }
+
+  if (clock) {
+    const { start, end } = clock;
+    const shown = formatTime(start.hours, start.minutes);
+    return end ? `🕒 ${shown} → ${formatTime(end.hours, end.minutes)}` : `🕒 ${shown}`;
+  }
+
+  if (operation === 'number-pattern') {
+    return `${operands.join(', ')}, ?`;
+  }
+
+  if (moneyTask === 'pay') {
+    return `Pay ${formatMoney(calculateAnswer(operation, operands))}`;
+  }
+  if (operation === 'money-counting') {
+    return `${operands.map(formatMoney).join(' + ')} = ?`;
+  }
+
+  if (operation === 'order-of-operations') {
+    throw new Error('Order-of-operations challenges need an expression');
+  }
+  if (isClockOperation(operation)) {
+    throw new Error('Clock challenges need their clock times');
+  }
+
+  if (operation === 'fraction-simplification') {
+    return `Simplify ${formatRational(toFractions(operands)[0])}`;
+  }
+
+  const symbol = ` ${OPERATOR_SYMBOLS[getArithmeticOperation(operation)]} `;
+  if (getAnswerFormat(operation) === 'fraction') {
+    return `${toFractions(operands).map(formatRational).join(symbol)} = ?`;
+  }
+
+  // Negative numbers after the first get brackets: 5 - (-3)
+  const written = operands.map((operand, index) => (operand < 0 && index > 0 ? `(${operand})` : `${operand}`));
+  if (missingOperand === undefined) {
+    return `${written.join(symbol)} = ?`;
+  }
+
+  const result = calculateAnswer(operation, operands);
+  const shown = written.map((operand, index) => (index === missingOperand ? '?' : operand));
+  return `${shown.join(symbol)} = ${result}`;
+}
+
+/**
+ * The basic operator behind an operation ("decimal-addition" adds)
+ */
+function getArithmeticOperation(
+  operation: Exclude<
+    MathOperation,
+    'order-of-operations' | 'clock-reading' | 'elapsed-time' | 'number-pattern'
+  >
+): ArithmeticOperation {
+  switch (operation) {
+    case 'fraction-addition':
+    case 'decimal-addition':
+    case 'money-counting':
+      return 'addition';
+    case 'fraction-subtraction':
+    case 'decimal-subtraction':
+      return 'subtraction';
+    case 'fraction-simplification':
+      return 'division';
+    default:
+      return operation;
+  }
+}
+
+/**
+ * Read numerator/denominator pairs back into fractions
+ */
+function toFractions(operands: number[]): Rational[] {
+  const fractions: Rational[] = [];
+  for (let i = 0; i + 1 < operands.length; i += 2) {
+    fractions.push(rational(operands[i], operands[i + 1]));
+  }
+  return fractions;
 }
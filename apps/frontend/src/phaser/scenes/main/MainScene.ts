@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
-import type { GameSession } from '../../../lib';
+import type { GameSession, ShopItem } from '../../../lib';
+import { buildProgressReport, revealAround } from '../../../lib';
 import { BoardController } from './board/BoardController';
 import { MenuController } from './menu/MenuController';
 import { NewPlayerController } from './menu/NewPlayerController';
@@ -7,17 +8,23 @@ import { PlayerSelectionController } from './menu/PlayerSelectionController';
 import { HudController } from './hud/HudController';
 import { ChallengeController } from './challenge/ChallengeController';
 import { LevelOverlayController } from './level/LevelOverlayController';
+import { ReportController } from './report/ReportController';
 import { ShopController } from './shop/ShopController';
+import { BankController } from './bank/BankController';
 import { MobController } from './mob/MobController';
-import type { ShopItem } from './shop/ShopController';
 import { InputHandler } from './input/InputHandler';
 import { GameStateManager } from './state/GameStateManager';
 import { ChallengeManager } from './challenge/ChallengeManager';
 import { PlayerMovementHandler } from './player/PlayerMovementHandler';
 import { MapProgressionManager } from './map/MapProgressionManager';
+import { downloadFile } from './download';
+import { pickTextFile } from './upload';
+import { PLAY_TIME_FLUSH_SECONDS } from './constants';
 
 export class MainScene extends Phaser.Scene {
   private pendingRebuild = false;
+  // Seconds played since play time was last added to the save
+  private unsavedPlayTime = 0;
 
   // Controllers
   private menu!: MenuController;
@@ -27,7 +34,9 @@ export class MainScene extends Phaser.Scene {
   private hud!: HudController;
   private challenge!: ChallengeController;
   private levelOverlay!: LevelOverlayController;
+  private report!: ReportController;
   private shop!: ShopController;
+  private bank!: BankController;
   private mob!: MobController;
 
   // Handlers
@@ -64,7 +73,9 @@ export class MainScene extends Phaser.Scene {
     this.hud = new HudController(this);
     this.challenge = new ChallengeController(this);
     this.levelOverlay = new LevelOverlayController(this);
+    this.report = new ReportController(this);
     this.shop = new ShopController(this);
+    this.bank = new BankController(this);
     this.mob = new MobController(this);
     
     // Initialize gameplay handlers
@@ -105,20 +116,43 @@ export class MainScene extends Phaser.Scene {
     
     // Initialize shop and menu
     this.shop.initialize({
-      onPurchase: (item, session) => this.handlePurchase(item, session),
+      onPurchase: (item) => this.handlePurchase(item),
       getSession: () => this.stateManager.getSession(),
+      getOffers: () => this.stateManager.getShopOffers(),
+      isCheckoutPractice: () => this.stateManager.isCheckoutPractice(),
+      onToggleCheckoutPractice: (enabled) => {
+        this.stateManager.setCheckoutPractice(enabled);
+        this.stateManager.persistSession();
+      },
+      onCheckoutAttempt: (question, result) =>
+        this.stateManager.recordCheckoutAttempt(question, result),
+    });
+    this.bank.initialize({
+      getSession: () => this.stateManager.getSession(),
+      getOffers: () => this.stateManager.getShopOffers(),
+      onDeposit: (amount) => this.handleBankTransfer(this.stateManager.deposit(amount)),
+      onWithdraw: (amount) => this.handleBankTransfer(this.stateManager.withdraw(amount)),
+      onSetGoal: (itemId) => {
+        this.stateManager.setSavingsGoal(itemId);
+        this.stateManager.persistSession();
+      },
     });
     this.menu = new MenuController(this, {
       onStartAdventure: () => this.showNewPlayerScreen(),
       onContinueJourney: () => this.showPlayerSelectionScreen(),
+      onShowReport: () => this.showReport(),
       getSession: () => this.stateManager.getSession(),
+      hasSavedProfiles: () => this.stateManager.getProfiles().length > 0,
     });
 
     this.input.keyboard?.on('keydown-M', this.handleMenuShortcut, this);
 
     this.scale.on(Phaser.Scale.Events.RESIZE, this.handleResize, this);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
     this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
       this.scale.off(Phaser.Scale.Events.RESIZE, this.handleResize, this);
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      void this.stateManager.flush();
       this.input.keyboard?.off('keydown-M', this.handleMenuShortcut, this);
       this.menu.destroy();
       this.newPlayerScreen?.destroy();
@@ -126,26 +160,56 @@ export class MainScene extends Phaser.Scene {
       this.hud.destroy();
       this.challenge.hide();
       this.levelOverlay.hide();
+      this.report.hide();
       this.shop.destroy();
+      this.bank.destroy();
       this.mob.destroy();
       this.board.destroy();
       this.inputHandler.destroy();
     });
 
-    this.stateManager.loadExistingSession();
-    this.showMenu();
+    // Saved players load asynchronously; the menu needs them to decide what to offer
+    void this.stateManager
+      .loadExistingSession()
+      .then(
+        async () => {
+          this.showMenu();
+          // Progress made on another device may arrive after the menu is up
+          const changed = await this.stateManager.syncWithServer();
+          if (changed && this.stateManager.getPhase() === 'menu') {
+            this.renderMenuScreen();
+          }
+        },
+        (error: unknown) => {
+          // Storage that cannot be read still leaves the menu, to start a new player
+          console.error('Failed to load saved players', error);
+          this.showMenu();
+        }
+      )
+      .catch((error: unknown) => console.error('Failed to sync with the server', error));
   }
 
-  update() {
+  update(_time: number, delta: number) {
     if (this.stateManager.getPhase() !== 'play' || !this.stateManager.getSession()) {
       return;
     }
 
+    this.unsavedPlayTime += delta / 1000;
+    if (this.unsavedPlayTime >= PLAY_TIME_FLUSH_SECONDS) {
+      this.stateManager.addPlayTime(this.unsavedPlayTime);
+      this.unsavedPlayTime = 0;
+    }
+
     if (this.pendingRebuild) {
       this.rebuildScene();
     }
 
-    if (this.challenge.isActive() || this.levelOverlay.isActive() || this.shop.isActive()) {
+    if (
+      this.challenge.isActive() ||
+      this.levelOverlay.isActive() ||
+      this.shop.isActive() ||
+      this.bank.isActive()
+    ) {
       return;
     }
 
@@ -156,6 +220,7 @@ export class MainScene extends Phaser.Scene {
         this.challengeManager.setPreviousPosition(session.player.currentPosition);
         const newPosition = this.playerMovement.movePlayer(direction);
         if (newPosition) {
+          this.mob.updateFogVisibility(session.currentMap);
           this.challengeManager.checkForChallenge(newPosition);
         }
       }
@@ -168,17 +233,12 @@ export class MainScene extends Phaser.Scene {
 
     this.challenge.handleResize(width, height);
     this.levelOverlay.handleResize(width, height);
+    this.report.handleResize(width, height);
     this.shop.handleResize(width, height);
+    this.bank.handleResize(width, height);
 
     if (this.stateManager.getPhase() === 'menu') {
-      // Re-render whichever menu screen is currently active
-      if (this.newPlayerScreen) {
-        this.newPlayerScreen.render();
-      } else if (this.playerSelectionScreen) {
-        this.playerSelectionScreen.render();
-      } else {
-        this.showMenu();
-      }
+      this.renderMenuScreen();
       return;
     }
 
@@ -187,6 +247,27 @@ export class MainScene extends Phaser.Scene {
     this.hud.position();
   };
 
+  /**
+   * Re-render whichever menu screen is currently active
+   */
+  private renderMenuScreen() {
+    if (this.newPlayerScreen) {
+      this.newPlayerScreen.render();
+    } else if (this.playerSelectionScreen) {
+      this.playerSelectionScreen.render();
+    } else if (!this.report.isActive()) {
+      this.showMenu();
+    }
+  }
+
+  private handleVisibilityChange = () => {
+    // Queued saves may never be written if the tab is closed while hidden
+    if (document.visibilityState === 'hidden') {
+      this.stateManager.persistSession();
+      void this.stateManager.flush();
+    }
+  };
+
   private handleMenuShortcut = (event: KeyboardEvent) => {
     if (this.stateManager.getPhase() !== 'play' || this.challenge.isActive() || this.levelOverlay.isActive()) {
       return;
@@ -203,7 +284,9 @@ export class MainScene extends Phaser.Scene {
     this.hud.setVisible(false);
     this.challenge.hide();
     this.levelOverlay.hide();
+    this.report.hide();
     this.shop.setVisible(false);
+    this.bank.setVisible(false);
     this.mob.stopMovement();
     this.mob.setVisible(false);
     this.newPlayerScreen?.destroy();
@@ -222,18 +305,77 @@ export class MainScene extends Phaser.Scene {
     this.newPlayerScreen.render();
   }
 
+  private showReport() {
+    const session = this.stateManager.getSession();
+    if (!session) {
+      return;
+    }
+
+    this.menu.destroy();
+    const report = buildProgressReport(session.player, this.stateManager.getAttemptHistory());
+    this.report.show(report, { onBack: () => this.showMenu() });
+  }
+
   private showPlayerSelectionScreen() {
     this.menu.destroy();
     this.newPlayerScreen?.destroy();
     
     this.playerSelectionScreen = new PlayerSelectionController(this, {
-      onPlayerSelected: () => this.continueSession(),
+      onPlayerSelected: (profileId) =>
+        this.stateManager.selectProfile(profileId).then((session) => this.openProfile(session)),
+      onRestorePlayer: (profileId) =>
+        this.stateManager.restoreProfile(profileId).then((session) => this.openProfile(session)),
+      onRenamePlayer: (profileId, name) => this.stateManager.renameProfile(profileId, name),
+      onDeletePlayer: (profileId) => this.stateManager.deleteProfile(profileId),
+      onExportPlayer: (profileId) => this.exportPlayer(profileId),
+      onImportPlayer: async () => {
+        const text = await pickTextFile('.json,application/json');
+        if (!text) {
+          return null;
+        }
+
+        const save = this.stateManager.readSave(text);
+        const { player } = save.session;
+        const replaces = this.stateManager
+          .getProfiles()
+          .find((profile) => profile.id === player.id);
+        return {
+          name: player.name,
+          replaces,
+          isOlder: !!replaces && player.lastPlayedAt < replaces.lastPlayedAt,
+          apply: () => this.stateManager.importSave(save),
+        };
+      },
       onBack: () => this.showMenu(),
-      getSession: () => this.stateManager.getSession(),
+      getProfiles: () => this.stateManager.getProfiles(),
+      getActiveProfileId: () => this.stateManager.getSession()?.player.id ?? null,
+      getDamage: (profileId) => this.stateManager.getProfileDamage(profileId),
+      getFamilyCode: () => this.stateManager.getFamilyCode(),
+      onJoinFamily: (code) => this.stateManager.joinFamily(code),
     });
     this.playerSelectionScreen.render();
   }
 
+  // A save that failed to load is shown as damaged in the list instead
+  private openProfile(session: GameSession | null) {
+    if (session) {
+      this.continueSession();
+    } else {
+      this.playerSelectionScreen?.render();
+    }
+  }
+
+  private async exportPlayer(profileId: string) {
+    const content = await this.stateManager.exportProfile(profileId);
+    const profile = this.stateManager.getProfiles().find((entry) => entry.id === profileId);
+    if (!content || !profile) {
+      return;
+    }
+
+    const fileName = profile.name.replace(/\W+/g, '-').toLowerCase();
+    downloadFile(`math-cash-save-${fileName}.json`, content, 'application/json');
+  }
+
   private startNewGame(name: string) {
     const trimmed = name.trim();
     this.stateManager.createNewSession(trimmed);
@@ -245,6 +387,7 @@ export class MainScene extends Phaser.Scene {
     this.playerSelectionScreen?.destroy();
     this.board.setVisible(true);
     this.shop.setVisible(true);
+    this.bank.setVisible(true);
     this.hud.render();
     this.hud.setVisible(true);
     this.pendingRebuild = true;
@@ -264,6 +407,7 @@ export class MainScene extends Phaser.Scene {
     this.playerSelectionScreen?.destroy();
     this.board.setVisible(true);
     this.shop.setVisible(true);
+    this.bank.setVisible(true);
     this.mob.setVisible(true);
     this.hud.render();
     this.hud.setVisible(true);
@@ -280,6 +424,7 @@ export class MainScene extends Phaser.Scene {
     }
 
     this.pendingRebuild = false;
+    revealAround(session.currentMap, session.player.currentPosition);
     const success = this.board.rebuild(session.currentMap, session.player.currentPosition);
     if (!success) {
       this.pendingRebuild = true;
@@ -304,23 +449,21 @@ export class MainScene extends Phaser.Scene {
     this.challengeManager.checkForChallenge(session.player.currentPosition);
   }
 
-  private handlePurchase(item: ShopItem, session: GameSession) {
-    if (session.player.currency >= item.price) {
-      session.player.currency -= item.price;
-      this.stateManager.updateLastPlayed();
-      
-      // Handle item effects
-      switch (item.id) {
-        case 'coin-multiplier':
-          session.player.coinMultiplierCharges += 5; // Add 5 charges (2x coins for 5 challenges)
-          break;
-        // TODO: Implement other items here
-        default:
-          break;
-      }
-      
+  private handleBankTransfer(succeeded: boolean): boolean {
+    const session = this.stateManager.getSession();
+    if (session && succeeded) {
       this.hud.update(session);
       this.stateManager.persistSession();
     }
+    return succeeded;
   }
+
+  private handlePurchase(item: ShopItem) {
+    const session = this.stateManager.getSession();
+    if (session && this.stateManager.purchaseItem(item)) {
+      this.hud.update(session);
+      this.stateManager.persistSession();
+    }
+  }
+
 }
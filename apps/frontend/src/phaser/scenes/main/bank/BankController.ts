@@ -0,0 +1,505 @@
+import Phaser from 'phaser';
+import type { GameSession, InterestKind, SavingsAccount, ShopOffer } from '../../../../lib';
+import {
+  INTEREST_RATE_PERCENT,
+  getInterest,
+  getInterestKind,
+  getMapsUntilBalance,
+  projectSavings,
+} from '../../../../lib';
+import { createNumberPad } from '../challenge/NumberPad';
+import type { ModalPanelControl } from '../panel';
+import { createModalPanel, createPanelButton, createSideButton } from '../panel';
+
+interface BankCallbacks {
+  getSession: () => GameSession | null;
+  getOffers: () => ShopOffer[];
+  onDeposit: (amount: number) => boolean;
+  onWithdraw: (amount: number) => boolean;
+  onSetGoal: (itemId: string | undefined) => void;
+}
+
+type BankView = 'account' | 'goal' | 'predict';
+
+// A balance the player is predicting before seeing the projection
+interface Prediction {
+  maps: number;
+  balances: number[];
+  input: string;
+  result?: 'right' | 'wrong';
+}
+
+const TEXT_STYLE = { fontFamily: 'Poppins, sans-serif', color: '#ffffff' };
+
+export class BankController {
+  private panel?: ModalPanelControl;
+  private bankButton?: Phaser.GameObjects.Container;
+  private isOpen = false;
+  private view: BankView = 'account';
+  private amountInput = '';
+  // ✓ on the number pad asks first; a second ✓ makes the deposit
+  private confirmingDeposit = false;
+  private message = '';
+  private prediction?: Prediction;
+  private callbacks?: BankCallbacks;
+
+  constructor(private readonly scene: Phaser.Scene) {}
+
+  initialize(callbacks: BankCallbacks) {
+    this.callbacks = callbacks;
+    this.createBankButton();
+  }
+
+  destroy() {
+    this.hide();
+    this.bankButton?.destroy(true);
+    this.bankButton = undefined;
+    this.callbacks = undefined;
+  }
+
+  setVisible(visible: boolean) {
+    this.bankButton?.setVisible(visible);
+    if (!visible && this.isOpen) {
+      this.hide();
+    }
+  }
+
+  isActive(): boolean {
+    return this.isOpen;
+  }
+
+  hide() {
+    if (!this.isOpen) {
+      return;
+    }
+
+    this.isOpen = false;
+    this.view = 'account';
+    this.amountInput = '';
+    this.confirmingDeposit = false;
+    this.message = '';
+    this.prediction = undefined;
+    this.clearPanel();
+  }
+
+  handleResize(width: number, height: number) {
+    // Recreate bank button with new responsive sizing
+    this.bankButton?.destroy(true);
+    this.createBankButton();
+    this.panel?.resize(width, height);
+  }
+
+  private createBankButton() {
+    // Same size as the shop button, just below it
+    this.bankButton = createSideButton(this.scene, {
+      icon: '🏦',
+      label: 'BANK',
+      color: 0xf4a261,
+      slot: 1,
+      onClick: () => (this.isOpen ? this.hide() : this.show()),
+    });
+  }
+
+  private show() {
+    const session = this.callbacks?.getSession();
+    if (this.isOpen || !session) {
+      return;
+    }
+
+    this.isOpen = true;
+
+    this.panel = createModalPanel(this.scene, { accentColor: 0xf4a261 });
+    const { width: panelWidth, height: panelHeight } = this.panel;
+
+    switch (this.view) {
+      case 'account':
+        this.renderAccount(session, panelWidth, panelHeight);
+        break;
+      case 'goal':
+        this.renderGoalPicker(session, panelWidth, panelHeight);
+        break;
+      case 'predict':
+        this.renderPrediction(session, panelWidth, panelHeight);
+        break;
+    }
+  }
+
+  /**
+   * Redraw the open bank, keeping the current view and what has been typed
+   */
+  private refresh() {
+    this.clearPanel();
+    this.isOpen = false;
+    this.show();
+  }
+
+  private clearPanel() {
+    this.panel?.destroy();
+    this.panel = undefined;
+  }
+
+  private showView(view: BankView) {
+    this.view = view;
+    this.confirmingDeposit = false;
+    this.message = '';
+    this.prediction = undefined;
+    this.refresh();
+  }
+
+  private renderAccount(session: GameSession, panelWidth: number, panelHeight: number) {
+    const { container } = this.panel!;
+    const top = -panelHeight / 2;
+    const { savings } = session.player;
+    const kind = getInterestKind(session.currentMap.difficulty);
+
+    const title = this.addText(0, top + 30, '🏦 BANK', {
+      fontSize: '32px',
+      color: '#f4a261',
+      fontStyle: 'bold',
+    });
+
+    const balances = this.addText(
+      0,
+      top + 70,
+      `💰 Wallet: ${session.player.currency}    🏦 Savings: ${savings.balance}`,
+      { fontSize: '20px', color: '#f4d35e', fontStyle: 'bold' }
+    );
+
+    const interest = this.addText(
+      0,
+      top + 118,
+      `${this.describeInterest(savings, kind)}\nNext map pays: +${getInterest(savings, kind)} coins`,
+      { fontSize: '15px', color: '#cbd5f5', align: 'center', wordWrap: { width: panelWidth - 60 } }
+    );
+
+    const amountText = this.addText(0, top + 180, `Amount: ${this.amountInput || '—'}`, {
+      fontSize: '26px',
+      color: '#ffd166',
+      backgroundColor: 'rgba(255,255,255,0.08)',
+      padding: { x: 18, y: 6 },
+    });
+
+    const message = this.addText(0, top + 318, this.message, {
+      fontSize: '15px',
+      color: '#ffd6a5',
+    });
+
+    // A changed amount needs confirming again
+    const setAmount = (amount: string) => {
+      this.amountInput = amount;
+      amountText.setText(`Amount: ${amount || '—'}`);
+      if (this.confirmingDeposit) {
+        this.confirmingDeposit = false;
+        message.setText('');
+      }
+    };
+    const press = (digit: string) => {
+      if (/^[0-9]$/.test(digit) && this.amountInput.length < 6) {
+        setAmount(this.amountInput + digit);
+      }
+    };
+    const backspace = () => setAmount(this.amountInput.slice(0, -1));
+    const confirmDeposit = () => {
+      if (this.confirmingDeposit || !this.amountInput) {
+        this.moveCoins('deposit');
+        return;
+      }
+      this.confirmingDeposit = true;
+      message.setText(`Press ✓ again to deposit ${this.amountInput} coins.`);
+    };
+
+    const numberPad = createNumberPad({
+      scene: this.scene,
+      y: top + 228,
+      onNumberPress: press,
+      onBackspace: backspace,
+      onSubmit: confirmDeposit,
+    });
+    this.panel!.listenForKeys(press, backspace, confirmDeposit);
+
+    const depositButton = this.createButton(-80, top + 278, 140, '⬇️ Deposit', 0x43aa8b, () =>
+      this.moveCoins('deposit')
+    );
+    const withdrawButton = this.createButton(80, top + 278, 140, '⬆️ Withdraw', 0x4361ee, () =>
+      this.moveCoins('withdraw')
+    );
+
+    container.add([
+      title,
+      balances,
+      interest,
+      amountText,
+      numberPad.container,
+      depositButton,
+      withdrawButton,
+      message,
+      ...this.createGoalSummary(session, kind, top + 365, panelWidth - 80),
+    ]);
+
+    const bottomY = panelHeight / 2 - 40;
+    container.add([
+      this.createButton(-150, bottomY, 130, '🎯 Goal', 0x7209b7, () => this.showView('goal')),
+      this.createButton(0, bottomY, 130, '🔮 Predict', 0x4cc9f0, () => this.showView('predict')),
+      this.createButton(150, bottomY, 130, 'Close', 0xff6b6b, () => this.hide()),
+    ]);
+  }
+
+  /**
+   * Progress towards the savings goal, and how many maps of interest it is away
+   */
+  private createGoalSummary(
+    session: GameSession,
+    kind: InterestKind,
+    y: number,
+    width: number
+  ): Phaser.GameObjects.GameObject[] {
+    const { savings } = session.player;
+    const goal = this.callbacks
+      ?.getOffers()
+      .find((offer) => offer.item.id === savings.goalItemId && offer.status !== 'locked');
+    if (!goal) {
+      return [
+        this.addText(0, y, '🎯 No savings goal yet. Pick something to save up for!', {
+          fontSize: '16px',
+          color: '#cbd5f5',
+        }),
+      ];
+    }
+
+    const label = this.addText(
+      0,
+      y,
+      `🎯 Saving for ${goal.item.icon} ${goal.item.name}: ${Math.min(savings.balance, goal.price)} / ${goal.price}`,
+      { fontSize: '16px', color: '#ffffff', fontStyle: 'bold' }
+    );
+
+    const progress = Math.min(1, savings.balance / goal.price);
+    const track = this.scene.add.rectangle(0, y + 30, width, 16, 0x2d4263, 1);
+    track.setStrokeStyle(1, 0x4cc9f0, 0.5);
+    const fill = this.scene.add.rectangle(-width / 2, y + 30, width * progress, 16, 0x43aa8b, 1);
+    fill.setOrigin(0, 0.5);
+
+    const maps = getMapsUntilBalance(savings, kind, goal.price);
+    let detail: string;
+    if (maps === 0) {
+      detail = 'You have saved enough! Withdraw your coins and buy it in the shop.';
+    } else if (maps === null) {
+      detail = 'Interest alone will take a long time. Deposit more coins to get there!';
+    } else {
+      detail = `Interest alone gets you there in ${maps} ${maps === 1 ? 'map' : 'maps'}. Deposit more to go faster!`;
+    }
+    const detailText = this.addText(0, y + 58, detail, {
+      fontSize: '14px',
+      color: '#cbd5f5',
+      align: 'center',
+      wordWrap: { width },
+    });
+
+    return [label, track, fill, detailText];
+  }
+
+  private renderGoalPicker(session: GameSession, panelWidth: number, panelHeight: number) {
+    const { container } = this.panel!;
+    const top = -panelHeight / 2;
+
+    const title = this.addText(0, top + 40, '🎯 Pick a Savings Goal', {
+      fontSize: '28px',
+      color: '#f4a261',
+      fontStyle: 'bold',
+    });
+    const subtitle = this.addText(0, top + 85, 'Bigger prizes take longer to save for!', {
+      fontSize: '16px',
+      color: '#cbd5f5',
+    });
+    container.add([title, subtitle]);
+
+    // Most expensive first; those are the ones worth saving up for
+    const rowHeight = 60;
+    const listTop = top + 145;
+    const maxRows = Math.max(1, Math.floor((panelHeight / 2 - 100 - listTop) / rowHeight) + 1);
+    const offers = (this.callbacks?.getOffers() ?? [])
+      .filter((offer) => offer.status !== 'locked')
+      .sort((a, b) => b.price - a.price)
+      .slice(0, maxRows);
+
+    offers.forEach((offer, index) => {
+      const isGoal = offer.item.id === session.player.savings.goalItemId;
+      const row = this.createButton(
+        0,
+        listTop + index * rowHeight,
+        panelWidth - 80,
+        `${isGoal ? '✅ ' : ''}${offer.item.icon} ${offer.item.name} — ${offer.price} 💰`,
+        isGoal ? 0x43aa8b : 0x2d4263,
+        () => {
+          this.callbacks?.onSetGoal(offer.item.id);
+          this.showView('account');
+        }
+      );
+      container.add(row);
+    });
+
+    const bottomY = panelHeight / 2 - 40;
+    container.add([
+      this.createButton(-80, bottomY, 140, 'No goal', 0x666666, () => {
+        this.callbacks?.onSetGoal(undefined);
+        this.showView('account');
+      }),
+      this.createButton(80, bottomY, 140, '← Back', 0xff6b6b, () => this.showView('account')),
+    ]);
+  }
+
+  /**
+   * Ask the player to predict their balance a few maps ahead, then show how it grows
+   */
+  private renderPrediction(session: GameSession, panelWidth: number, panelHeight: number) {
+    const { container } = this.panel!;
+    const top = -panelHeight / 2;
+    const { savings } = session.player;
+    const kind = getInterestKind(session.currentMap.difficulty);
+
+    const title = this.addText(0, top + 40, '🔮 Predict Your Savings', {
+      fontSize: '28px',
+      color: '#4cc9f0',
+      fontStyle: 'bold',
+    });
+    container.add(title);
+    container.add(
+      this.createButton(0, panelHeight / 2 - 40, 140, '← Back', 0xff6b6b, () =>
+        this.showView('account')
+      )
+    );
+
+    if (savings.balance === 0) {
+      container.add(
+        this.addText(0, 0, 'Deposit some coins first, then predict how they grow!', {
+          fontSize: '18px',
+          color: '#cbd5f5',
+          align: 'center',
+          wordWrap: { width: panelWidth - 60 },
+        })
+      );
+      return;
+    }
+
+    // Two maps show compound interest growing on itself
+    const maps = kind === 'compound' ? 2 : 1;
+    this.prediction ??= { maps, balances: projectSavings(savings, kind, maps), input: '' };
+    const prediction = this.prediction;
+
+    const prompt = this.addText(
+      0,
+      top + 120,
+      `You have ${savings.balance} coins saved. ${this.describeInterest(savings, kind)}\n` +
+        `How many coins will you have after ${maps === 1 ? 'the next map' : `${maps} more maps`}?` +
+        ' (Interest is rounded down to whole coins.)',
+      { fontSize: '16px', color: '#dce8ff', align: 'center', wordWrap: { width: panelWidth - 60 } }
+    );
+    container.add(prompt);
+
+    if (prediction.result) {
+      const verdict =
+        prediction.result === 'right'
+          ? `🎉 Spot on! ${prediction.input} coins.`
+          : `Not quite, you guessed ${prediction.input}. Here is how it grows:`;
+      const steps = prediction.balances.map((balance, index) => {
+        const before = index === 0 ? savings.balance : prediction.balances[index - 1];
+        return `After map ${index + 1}: ${before} + ${balance - before} = ${balance} coins`;
+      });
+      container.add(
+        this.addText(0, top + 240, [verdict, '', ...steps].join('\n'), {
+          fontSize: '17px',
+          color: prediction.result === 'right' ? '#b7f7c5' : '#ffd6a5',
+          align: 'center',
+          lineSpacing: 6,
+          wordWrap: { width: panelWidth - 60 },
+        })
+      );
+      return;
+    }
+
+    const answerText = this.addText(0, top + 215, prediction.input || '—', {
+      fontSize: '36px',
+      color: '#ffd166',
+      backgroundColor: 'rgba(255,255,255,0.08)',
+      padding: { x: 24, y: 10 },
+    });
+
+    const press = (digit: string) => {
+      if (/^[0-9]$/.test(digit) && prediction.input.length < 6) {
+        prediction.input += digit;
+        answerText.setText(prediction.input);
+      }
+    };
+    const backspace = () => {
+      prediction.input = prediction.input.slice(0, -1);
+      answerText.setText(prediction.input || '—');
+    };
+    const submit = () => {
+      if (!prediction.input) {
+        return;
+      }
+      const expected = prediction.balances[prediction.balances.length - 1];
+      prediction.result = Number(prediction.input) === expected ? 'right' : 'wrong';
+      this.refresh();
+    };
+
+    const numberPad = createNumberPad({
+      scene: this.scene,
+      y: top + 275,
+      onNumberPress: press,
+      onBackspace: backspace,
+      onSubmit: submit,
+    });
+    this.panel!.listenForKeys(press, backspace, submit);
+
+    container.add([answerText, numberPad.container]);
+  }
+
+  private describeInterest(savings: SavingsAccount, kind: InterestKind): string {
+    return kind === 'simple'
+      ? `Simple interest: each map pays ${INTEREST_RATE_PERCENT}% of the ${savings.principal} coins you deposited.`
+      : `Compound interest: each map pays ${INTEREST_RATE_PERCENT}% of your whole balance, earlier interest included.`;
+  }
+
+  private moveCoins(direction: 'deposit' | 'withdraw') {
+    const amount = Number(this.amountInput);
+    if (!this.callbacks || !this.amountInput || amount <= 0) {
+      this.message = 'Type how many coins first.';
+      this.refresh();
+      return;
+    }
+
+    if (direction === 'deposit') {
+      this.message = this.callbacks.onDeposit(amount)
+        ? `Deposited ${amount} coins. Watch them grow!`
+        : "You don't have that many coins in your wallet.";
+    } else {
+      this.message = this.callbacks.onWithdraw(amount)
+        ? `Took out ${amount} coins.`
+        : "You don't have that many coins saved.";
+    }
+    this.amountInput = '';
+    this.confirmingDeposit = false;
+    this.refresh();
+  }
+
+  private addText(
+    x: number,
+    y: number,
+    text: string,
+    style: Phaser.Types.GameObjects.Text.TextStyle
+  ): Phaser.GameObjects.Text {
+    return this.scene.add.text(x, y, text, { ...TEXT_STYLE, ...style }).setOrigin(0.5);
+  }
+
+  private createButton(
+    x: number,
+    y: number,
+    width: number,
+    label: string,
+    color: number,
+    onClick: () => void
+  ): Phaser.GameObjects.Container {
+    return createPanelButton(this.scene, { x, y, width, label, color, onClick });
+  }
+}
@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
-import type { TileMap, Tile, Position } from '../../../../lib';
-import { PLAYER_COLOR, TILE_GAP } from '../constants';
+import type { TileMap, Tile, Position, ChestLoot } from '../../../../lib';
+import { isTileRevealed } from '../../../../lib';
+import { FOG_COLOR, KEY_COLORS, LOOT_LABELS, PLAYER_COLOR, TILE_GAP } from '../constants';
 
 export class BoardController {
   private readonly tileContainer: Phaser.GameObjects.Container;
@@ -8,6 +9,7 @@ export class BoardController {
   private tileSize = 0;
   private gridOrigin = { x: 0, y: 0 };
   private tileObjects = new Map<string, Phaser.GameObjects.Rectangle>();
+  private tileDecorations = new Map<string, Phaser.GameObjects.Text>();
 
   constructor(private readonly scene: Phaser.Scene) {
     this.tileContainer = scene.add.container(0, 0);
@@ -18,6 +20,7 @@ export class BoardController {
     this.tileContainer.destroy(true);
     this.playerMarker?.destroy();
     this.tileObjects.clear();
+    this.tileDecorations.clear();
   }
 
   setVisible(visible: boolean) {
@@ -28,6 +31,7 @@ export class BoardController {
   rebuild(map: TileMap, currentPosition: Position): boolean {
     this.tileContainer.removeAll(true);
     this.tileObjects.clear();
+    this.tileDecorations.clear();
 
     this.tileSize = this.calculateTileSize(map);
     if (this.tileSize <= 0) {
@@ -49,9 +53,28 @@ export class BoardController {
       const [x, y] = key.split(',').map(Number);
       const tile = map.tiles[y][x];
       const isPlayerTile = x === currentPosition.x && y === currentPosition.y;
+      if (!isTileRevealed(map, tile.position)) {
+        rect.setFillStyle(FOG_COLOR, 1);
+        continue;
+      }
       const fillColor = this.getTileBaseColor(tile);
       rect.setFillStyle(isPlayerTile ? PLAYER_COLOR : fillColor, isPlayerTile ? 0.35 : 1);
     }
+
+    // Fogged tiles hide their icons; collected keys and opened doors lose theirs
+    for (const [key, decoration] of this.tileDecorations.entries()) {
+      const [x, y] = key.split(',').map(Number);
+      const tile = map.tiles[y][x];
+      if (!isTileRevealed(map, tile.position)) {
+        decoration.setVisible(false);
+      } else if (tile.type === 'key' || tile.type === 'chest') {
+        decoration.setVisible(!tile.isCollected);
+      } else if (tile.type === 'door') {
+        decoration.setVisible(!tile.isAccessible);
+      } else {
+        decoration.setVisible(true);
+      }
+    }
   }
 
   updatePlayerMarker(position: Position) {
@@ -158,6 +181,49 @@ export class BoardController {
     });
   }
 
+  /**
+   * Float the contents of an opened chest up from its tile
+   */
+  showLoot(position: Position, loot: ChestLoot) {
+    this.floatText(position, `+${loot.amount} ${LOOT_LABELS[loot.kind]}`, 0);
+  }
+
+  /**
+   * Float a streak bonus up from the player, starting above anything floating from the tile
+   */
+  showStreakBonus(position: Position, bonus: number, boosted: boolean) {
+    const label = `🔥 +${bonus} streak bonus${boosted ? ' (⚡ boost doubled it)' : ''}`;
+    this.floatText(position, label, this.tileSize * 0.75);
+  }
+
+  private floatText(position: Position, label: string, lift: number) {
+    const rect = this.tileObjects.get(`${position.x},${position.y}`);
+    if (!rect) {
+      return;
+    }
+
+    const floatingText = this.scene.add.text(rect.x, rect.y - lift, label, {
+      fontFamily: 'Poppins, sans-serif',
+      fontSize: '24px',
+      color: '#ffd166',
+      fontStyle: 'bold',
+      stroke: '#4a3b0e',
+      strokeThickness: 4,
+    });
+    floatingText.setOrigin(0.5, 0.5);
+    floatingText.setDepth(11);
+
+    this.scene.tweens.add({
+      targets: floatingText,
+      y: rect.y - lift - this.tileSize * 1.5,
+      alpha: 0,
+      scale: { from: 0.8, to: 1.2 },
+      duration: 2000,
+      ease: 'Power2',
+      onComplete: () => floatingText.destroy(),
+    });
+  }
+
   getTileRect(position: Position): Phaser.GameObjects.Rectangle | undefined {
     return this.tileObjects.get(`${position.x},${position.y}`);
   }
@@ -229,6 +295,14 @@ export class BoardController {
           crown.setOrigin(0.5, 0.5);
           crown.setScale(Math.min(1.4, this.tileSize / 64));
           this.tileContainer.add(crown);
+          this.tileDecorations.set(`${x},${y}`, crown);
+        } else if (tile.type === 'key' || tile.type === 'door' || tile.type === 'chest') {
+          const icons = { key: '🔑', door: '🚪', chest: '🎁' };
+          const icon = this.scene.add.text(rect.x, rect.y, icons[tile.type]);
+          icon.setOrigin(0.5, 0.5);
+          icon.setScale(Math.min(1.2, this.tileSize / 72));
+          this.tileContainer.add(icon);
+          this.tileDecorations.set(`${x},${y}`, icon);
         }
       }
     }
@@ -269,6 +343,19 @@ export class BoardController {
   }
 
   private getTileBaseColor(tile: Tile): number {
+    if (tile.type === 'door' && tile.keyColor) {
+      // Opened doors keep a faint hint of their color
+      return tile.isAccessible ? KEY_COLORS[tile.keyColor].open : KEY_COLORS[tile.keyColor].closed;
+    }
+
+    if (tile.type === 'key' && tile.keyColor && !tile.isCollected) {
+      return KEY_COLORS[tile.keyColor].open;
+    }
+
+    if (tile.type === 'chest' && !tile.isCollected) {
+      return 0x6b5a32;
+    }
+
     if (!tile.isAccessible) {
       return 0x0b1d3a;
     }
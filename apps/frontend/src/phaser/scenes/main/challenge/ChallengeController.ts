@@ -1,5 +1,16 @@
 import Phaser from 'phaser';
-import type { MathChallenge, Tile, MobType } from '../../../../lib';
+import type { ClockFaces, MathChallenge, Tile, MobType } from '../../../../lib';
+import {
+  allowsNegativeNumbers,
+  formatChallenge,
+  formatMoney,
+  getChallengeAnswerFormat,
+  getMoneyValues,
+  isBill,
+  isCorrectAnswer,
+  parseAnswer,
+  rationalToNumber,
+} from '../../../../lib';
 import { ENCOURAGEMENTS } from '../constants';
 import { createNumberPad, type NumberPadControl } from './NumberPad';
 import { BubbleShooterMinigame } from './minigames/BubbleShooterMinigame';
@@ -11,11 +22,25 @@ interface TileWithChallenge extends Tile {
   mobType?: MobType;
 }
 
+// One submitted answer, reported so the adaptive engine can learn from it
+export interface AttemptResult {
+  submittedAnswer: number;
+  isCorrect: boolean;
+  timeSpent: number; // seconds since the challenge was shown
+  attemptsCount: number;
+}
+
 interface ChallengeCallbacks {
   onSuccess(tile: TileWithChallenge): void;
   onCancel(tile: TileWithChallenge): void;
   onFailure(tile: TileWithChallenge, penalty: number): void;
+  onAttempt(challenge: MathChallenge, result: AttemptResult): void;
   getHint(challenge: MathChallenge): string;
+  // Shop items the player can spend here; the buttons only show when some are left
+  getHintsLeft?(): number;
+  onUseHint?(): void;
+  getSkipsLeft?(): number;
+  onSkip?(tile: TileWithChallenge): void;
 }
 
 interface ChallengeContext {
@@ -53,6 +78,15 @@ export class ChallengeController {
     this.active = true;
 
     const challenge = tile.challenge;
+    const shownAt = Date.now();
+    const reportAttempt = (submittedAnswer: number, isCorrect: boolean, attemptsCount: number) => {
+      callbacks.onAttempt(challenge, {
+        submittedAnswer,
+        isCorrect,
+        timeSpent: Math.max((Date.now() - shownAt) / 1000, 0.1),
+        attemptsCount,
+      });
+    };
     const centerX = this.scene.scale.width / 2;
     const centerY = this.scene.scale.height / 2;
     const panelWidth = Math.min(this.scene.scale.width * 0.8, 520);
@@ -76,25 +110,38 @@ export class ChallengeController {
       })
       .setOrigin(0.5, 0.5);
 
+    const rewardLabel =
+      tile.type === 'chest'
+        ? '🎁 Bonus: solve it to open the chest!'
+        : `Reward: 💰 ${challenge.reward} coins`;
     const reward = this.scene.add
-      .text(0, title.y + 40, `Reward: 💰 ${challenge.reward} coins`, {
+      .text(0, title.y + 40, rewardLabel, {
         fontFamily: 'Poppins, sans-serif',
         fontSize: '18px',
         color: '#cfe1ff',
       })
       .setOrigin(0.5, 0.5);
 
+    // Money and clock problems show their coins or clocks below a shorter question
+    const moneyTask = challenge.moneyTask;
+    const hasPicture = !!moneyTask || !!challenge.clock;
     const display = this.scene.add
-      .text(0, reward.y + 60, this.formatChallenge(challenge.operation, challenge.operands), {
+      .text(0, reward.y + (hasPicture ? 40 : 60), this.getQuestion(challenge), {
         fontFamily: 'Poppins, sans-serif',
-        fontSize: '36px',
+        fontSize: hasPicture ? '24px' : '36px',
         fontStyle: 'bold',
         color: '#ffffff',
       })
       .setOrigin(0.5, 0.5);
+    // Long expressions shrink to fit the panel
+    if (display.width > panelWidth * 0.9) {
+      display.setScale((panelWidth * 0.9) / display.width);
+    }
+    const pictureY = display.y + 45;
+    const answerPrompt = moneyTask === 'pay' ? 'You paid:' : 'Your answer:';
 
     const answerLabel = this.scene.add
-      .text(0, display.y + 70, 'Your answer:', {
+      .text(0, hasPicture ? pictureY + 45 : display.y + 70, answerPrompt, {
         fontFamily: 'Poppins, sans-serif',
         fontSize: '18px',
         color: '#9fb3d9',
@@ -134,8 +181,37 @@ export class ChallengeController {
 
     let context!: ChallengeContext;
 
-    // Check if this is a slime mob - use minigame, otherwise use number pad
-    const isSlimeMob = tile.mobType === 'slime';
+    // Report a submitted answer, then win, fail on the second miss, or show the hint and retry
+    const settleAttempt = (submittedAnswer: number, isCorrect: boolean, retry: () => void) => {
+      context.attempts += 1;
+      reportAttempt(submittedAnswer, isCorrect, context.attempts);
+
+      if (isCorrect) {
+        context.feedbackText.setText('Brilliant! 🎉');
+        callbacks.onSuccess(tile);
+        this.hide();
+        return;
+      }
+
+      context.feedbackText.setText(ENCOURAGEMENTS[Math.min(context.attempts - 1, ENCOURAGEMENTS.length - 1)]);
+      if (context.attempts >= 2) {
+        // After 2 wrong attempts, trigger failure immediately
+        const penalty = challenge.reward;
+        this.hide();
+        callbacks.onFailure(tile, penalty);
+        return;
+      }
+      context.hintText.setText(callbacks.getHint(challenge));
+      context.hintText.setVisible(true);
+      retry();
+    };
+
+    // Check if this is a slime mob - use minigame, otherwise use number pad.
+    // Bubbles only hold whole numbers, so fraction and decimal problems always use the pad,
+    // and money problems need the panel for their coins.
+    const answerFormat = getChallengeAnswerFormat(challenge);
+    const allowNegative = allowsNegativeNumbers(challenge.difficulty);
+    const isSlimeMob = tile.mobType === 'slime' && answerFormat === 'integer' && !moneyTask;
 
     if (isSlimeMob) {
       // Hide answer UI for minigames
@@ -168,6 +244,10 @@ export class ChallengeController {
           this.hide();
           callbacks.onFailure(tile, penalty);
         },
+        onAnswer: (answer, isCorrect) => {
+          context.attempts += 1;
+          reportAttempt(answer, isCorrect, context.attempts);
+        },
       });
 
       container.add([
@@ -200,10 +280,120 @@ export class ChallengeController {
       };
 
       this.context = context;
+    } else if (moneyTask === 'pay') {
+      // Tap coins and bills from the till until they make the price
+      const price = challenge.correctAnswer;
+      const paid: number[] = [];
+      const values = getMoneyValues(challenge.difficulty);
+      const countTexts = new Map<number, Phaser.GameObjects.Text>();
+
+      const updatePaid = () => {
+        const total = paid.reduce((sum, value) => sum + value, 0);
+        context.answerText.setText(paid.length > 0 ? formatMoney(total) : '—');
+        countTexts.forEach((text, value) => {
+          const count = paid.filter((piece) => piece === value).length;
+          text.setText(count > 0 ? `×${count}` : '');
+        });
+      };
+
+      const undo = () => {
+        paid.pop();
+        updatePaid();
+      };
+
+      const pay = () => {
+        if (paid.length === 0) {
+          context.feedbackText.setText('Tap the coins to pay!');
+          return;
+        }
+        const total = paid.reduce((sum, value) => sum + value, 0);
+        settleAttempt(total, total === price, () => {
+          paid.length = 0;
+          updatePaid();
+        });
+      };
+
+      const till = this.createMoneyRow(values, pictureY, panelWidth * 0.9, (piece, value) => {
+        // How many of this piece are in the payment, in the piece's top corner
+        const countText = this.scene.add
+          .text(isBill(value) ? 30 : 16, -18, '', {
+            fontFamily: 'Poppins, sans-serif',
+            fontSize: '13px',
+            color: '#ffd166',
+            fontStyle: 'bold',
+            stroke: '#061023',
+            strokeThickness: 3,
+          })
+          .setOrigin(0.5, 0.5);
+        countTexts.set(value, countText);
+
+        const face = piece.getAt(0) as Phaser.GameObjects.Shape;
+        face.setInteractive({ useHandCursor: true });
+        face.on('pointerdown', () => {
+          // Enough to pay three times over is plenty of room for mistakes
+          if (paid.length < 30) {
+            paid.push(value);
+            updatePaid();
+          }
+        });
+        face.on('pointerover', () => face.setScale(1.08));
+        face.on('pointerout', () => face.setScale(1));
+        // Added last so the count stays above the face
+        piece.add(countText);
+      });
+
+      const undoButton = this.createPowerUpButton(-75, answerText.y + 60, '↩ Undo', undo);
+      const payButton = this.createPowerUpButton(75, answerText.y + 60, '✓ Pay', pay);
+
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Enter') {
+          event.preventDefault();
+          pay();
+        } else if (event.key === 'Backspace') {
+          event.preventDefault();
+          undo();
+        }
+      };
+
+      container.add([
+        scrim,
+        background,
+        title,
+        reward,
+        display,
+        till,
+        answerLabel,
+        answerText,
+        undoButton,
+        payButton,
+        feedbackText,
+        hintText,
+      ]);
+
+      context = {
+        container,
+        scrim,
+        panel: background,
+        answerText,
+        feedbackText,
+        hintText,
+        tile,
+        challenge,
+        attempts: 0,
+        inputValue: '',
+        keydownHandler: handleKeyDown,
+      };
+
+      this.context = context;
+      this.scene.input.keyboard?.on('keydown', handleKeyDown);
     } else {
-      // Standard number pad challenge
+      // Standard number pad challenge; money totals are typed in cents, or in dollars once
+      // there are bills to count
+      const unit = moneyTask && answerFormat !== 'money' ? '¢' : '';
       const updateAnswerDisplay = () => {
-        context.answerText.setText(context.inputValue.length > 0 ? context.inputValue : '—');
+        const input = context.inputValue;
+        const shown = answerFormat === 'money' ? `$${input}` : `${input}${unit}`;
+        context.answerText.setText(input.length > 0 ? shown : '—');
       };
 
       const resetInput = () => {
@@ -218,38 +408,43 @@ export class ChallengeController {
           return;
         }
 
-        const numericAnswer = Number(trimmed);
-        if (!Number.isFinite(numericAnswer)) {
-          context.feedbackText.setText('That did not look like a number. Try again!');
+        const submitted = parseAnswer(trimmed, answerFormat);
+        if (!submitted) {
+          context.feedbackText.setText(
+            answerFormat === 'time'
+              ? 'Write the time as hours:minutes, like 3:45!'
+              : answerFormat === 'money'
+                ? 'Write the amount in dollars and cents, like $34.86!'
+                : 'That did not look like a number. Try again!'
+          );
           return;
         }
 
-        context.attempts += 1;
-
-        if (numericAnswer === challenge.correctAnswer) {
-          context.feedbackText.setText('Brilliant! 🎉');
-          callbacks.onSuccess(tile);
-          this.hide();
-          return;
-        }
+        settleAttempt(rationalToNumber(submitted), isCorrectAnswer(challenge, submitted), resetInput);
+      };
 
-        context.feedbackText.setText(ENCOURAGEMENTS[Math.min(context.attempts - 1, ENCOURAGEMENTS.length - 1)]);
-        if (context.attempts >= 2) {
-          // After 2 wrong attempts, trigger failure immediately
-          const penalty = challenge.reward;
-          this.hide();
-          callbacks.onFailure(tile, penalty);
-          return;
+      const canAppend = (char: string): boolean => {
+        const input = context.inputValue;
+        if (input.length >= 7) return false;
+        // Times have up to two digits for the hours and exactly two for the minutes
+        if (answerFormat === 'time' && /^[0-9]$/.test(char)) return /^(\d?|\d{1,2}:\d?)$/.test(input);
+        // Dollars have at most two digits of cents after the point
+        if (answerFormat === 'money' && /^[0-9]$/.test(char)) return !/\.\d{2}$/.test(input);
+        if (/^[0-9]$/.test(char)) return true;
+        if (char === '-') return allowNegative && input.length === 0; // Minus only at start
+        // One fraction bar after the numerator, one decimal point, or one colon after the hours
+        if (char === '/') return answerFormat === 'fraction' && /[0-9]$/.test(input) && !input.includes('/');
+        if (char === '.') {
+          const allowed = answerFormat === 'decimal' || answerFormat === 'money';
+          return allowed && !input.includes('.');
         }
-        context.hintText.setText(callbacks.getHint(challenge));
-        context.hintText.setVisible(true);
-        resetInput();
+        if (char === ':') return answerFormat === 'time' && /^\d{1,2}$/.test(input);
+        return false;
       };
 
       const handleNumberPress = (num: string) => {
         if (!context) return;
-        if (context.inputValue.length >= 6) return;
-        if (num === '-' && context.inputValue.length > 0) return; // Minus only at start
+        if (!canAppend(num)) return;
         context.inputValue += num;
         updateAnswerDisplay();
       };
@@ -264,6 +459,8 @@ export class ChallengeController {
       const numberPad = createNumberPad({
         scene: this.scene,
         y: answerText.y + 60,
+        answerFormat,
+        allowNegative,
         onNumberPress: handleNumberPress,
         onBackspace: handleBackspace,
         onSubmit: attemptSubmit,
@@ -289,9 +486,9 @@ export class ChallengeController {
           return;
         }
 
-        if (/^[0-9]$/.test(key) || (key === '-' && context.inputValue.length === 0)) {
+        if (/^[0-9]$/.test(key) || ['-', '/', '.', ':'].includes(key)) {
           event.preventDefault();
-          if (context.inputValue.length >= 6) {
+          if (!canAppend(key)) {
             return;
           }
           context.inputValue += key;
@@ -311,6 +508,11 @@ export class ChallengeController {
         feedbackText,
         hintText,
       ]);
+      if (moneyTask === 'count') {
+        container.add(this.createMoneyRow(challenge.operands, pictureY, panelWidth * 0.9));
+      } else if (challenge.clock) {
+        container.add(this.createClocks(challenge.clock, pictureY));
+      }
 
       context = {
         container,
@@ -331,6 +533,43 @@ export class ChallengeController {
       updateAnswerDisplay();
       this.scene.input.keyboard?.on('keydown', handleKeyDown);
     }
+
+    // A hint charge shows the hint before any wrong answer; a skip ends the challenge
+    const powerUpY = -panelHeight / 2 + 26;
+    const hintsLeft = callbacks.getHintsLeft?.() ?? 0;
+    if (hintsLeft > 0 && callbacks.onUseHint) {
+      const hintButton = this.createPowerUpButton(
+        -panelWidth / 2 + 80,
+        powerUpY,
+        `💡 Hint (${hintsLeft})`,
+        () => {
+          callbacks.onUseHint?.();
+          hintButton.destroy(true);
+          if (isSlimeMob) {
+            // The bubbles fill the lower half, so the hint takes the reward line's place
+            reward.setVisible(false);
+            context.hintText.setY(reward.y);
+          }
+          context.hintText.setText(callbacks.getHint(challenge));
+          context.hintText.setVisible(true);
+        }
+      );
+      container.add(hintButton);
+    }
+
+    const skipsLeft = callbacks.getSkipsLeft?.() ?? 0;
+    if (skipsLeft > 0 && callbacks.onSkip) {
+      const skipButton = this.createPowerUpButton(
+        panelWidth / 2 - 80,
+        powerUpY,
+        `⏭️ Skip (${skipsLeft})`,
+        () => {
+          this.hide();
+          callbacks.onSkip?.(tile);
+        }
+      );
+      container.add(skipButton);
+    }
   }
 
   hide() {
@@ -357,15 +596,218 @@ export class ChallengeController {
     container.setPosition(width / 2, height / 2);
   }
 
-  private formatChallenge(operation: MathChallenge['operation'], operands: number[]): string {
-    const [a, b] = operands;
-    const symbols: Record<MathChallenge['operation'], string> = {
-      addition: '+',
-      subtraction: '-',
-      multiplication: '×',
-      division: '÷',
-    };
-    return `${a} ${symbols[operation]} ${b} = ?`;
+  /**
+   * The problem as written above the answer; money and clock problems ask about the picture shown.
+   * Piles with bills in them are counted in dollars, so the question asks for money, not cents.
+   */
+  private getQuestion(challenge: MathChallenge): string {
+    if (challenge.moneyTask === 'pay') {
+      return `Pay exactly ${formatMoney(challenge.correctAnswer)}`;
+    }
+    if (challenge.moneyTask === 'count') {
+      return getChallengeAnswerFormat(challenge) === 'money'
+        ? 'How much money is here? (like $3.25)'
+        : 'How many cents are here?';
+    }
+    switch (challenge.operation) {
+      case 'clock-reading':
+        return 'What time is it?';
+      case 'elapsed-time':
+        return 'How much time has passed? (like 1:30)';
+      default:
+        return formatChallenge(challenge);
+    }
+  }
+
+  /**
+   * One clock face, or the start and end clocks of an elapsed-time problem side by side
+   */
+  private createClocks(clock: ClockFaces, y: number): Phaser.GameObjects.Container {
+    const row = this.scene.add.container(0, y);
+    const { start, end } = clock;
+    if (!end) {
+      row.add(this.createClockFace(0, start.hours, start.minutes));
+      return row;
+    }
+
+    const arrow = this.scene.add
+      .text(0, 0, '➜', {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '28px',
+        color: '#ffd166',
+      })
+      .setOrigin(0.5, 0.5);
+    row.add([
+      this.createClockFace(-80, start.hours, start.minutes),
+      arrow,
+      this.createClockFace(80, end.hours, end.minutes),
+    ]);
+    return row;
+  }
+
+  /**
+   * An analog clock with all twelve numbers, minute ticks and the two hands
+   */
+  private createClockFace(x: number, hours: number, minutes: number): Phaser.GameObjects.Container {
+    const clock = this.scene.add.container(x, 0);
+    const radius = 34;
+
+    const face = this.scene.add.circle(0, 0, radius, 0xfdfcf7, 1);
+    face.setStrokeStyle(3, 0x4cc9f0, 1);
+    clock.add(face);
+
+    // Angles run clockwise from 12 o'clock
+    const pointAt = (turns: number, length: number) => ({
+      x: Math.sin(turns * Math.PI * 2) * length,
+      y: -Math.cos(turns * Math.PI * 2) * length,
+    });
+
+    const marks = this.scene.add.graphics();
+    for (let minute = 0; minute < 60; minute++) {
+      const isHour = minute % 5 === 0;
+      const outer = pointAt(minute / 60, radius - 2);
+      const inner = pointAt(minute / 60, radius - (isHour ? 6 : 4));
+      marks.lineStyle(isHour ? 2 : 1, 0x1b2d44, 1);
+      marks.lineBetween(inner.x, inner.y, outer.x, outer.y);
+    }
+    clock.add(marks);
+
+    for (let hour = 1; hour <= 12; hour++) {
+      const position = pointAt(hour / 12, radius - 13);
+      clock.add(
+        this.scene.add
+          .text(position.x, position.y, `${hour}`, {
+            fontFamily: 'Poppins, sans-serif',
+            fontSize: '10px',
+            fontStyle: 'bold',
+            color: '#1b2d44',
+          })
+          .setOrigin(0.5, 0.5)
+      );
+    }
+
+    // The hour hand creeps towards the next hour as the minutes go by
+    const hourTip = pointAt(((hours % 12) + minutes / 60) / 12, radius * 0.5);
+    const minuteTip = pointAt(minutes / 60, radius * 0.82);
+    const hands = this.scene.add.graphics();
+    hands.lineStyle(4, 0x1b2d44, 1);
+    hands.lineBetween(0, 0, hourTip.x, hourTip.y);
+    hands.lineStyle(2, 0xe63946, 1);
+    hands.lineBetween(0, 0, minuteTip.x, minuteTip.y);
+    hands.fillStyle(0x1b2d44, 1);
+    hands.fillCircle(0, 0, 3);
+    clock.add(hands);
+
+    return clock;
+  }
+
+  /**
+   * Lay out coins and bills side by side, shrinking the row to fit the width
+   */
+  private createMoneyRow(
+    values: number[],
+    y: number,
+    maxWidth: number,
+    decorate?: (piece: Phaser.GameObjects.Container, value: number) => void
+  ): Phaser.GameObjects.Container {
+    const row = this.scene.add.container(0, y);
+    const gap = 10;
+    const widths = values.map((value) => (isBill(value) ? 70 : 2 * this.getCoinRadius(value)));
+    const totalWidth = widths.reduce((sum, width) => sum + width, 0) + gap * (values.length - 1);
+
+    let x = -totalWidth / 2;
+    values.forEach((value, index) => {
+      const piece = this.createMoneyPiece(x + widths[index] / 2, value);
+      decorate?.(piece, value);
+      row.add(piece);
+      x += widths[index] + gap;
+    });
+
+    if (totalWidth > maxWidth) {
+      row.setScale(maxWidth / totalWidth);
+    }
+    return row;
+  }
+
+  /**
+   * A coin (sized and colored like the real thing) or a green bill; the face comes first
+   */
+  private createMoneyPiece(x: number, value: number): Phaser.GameObjects.Container {
+    const piece = this.scene.add.container(x, 0);
+    const label = formatMoney(value);
+
+    if (isBill(value)) {
+      const bill = this.scene.add.rectangle(0, 0, 70, 36, 0x85bb65, 1);
+      bill.setStrokeStyle(2, 0x2f5d34, 1);
+      const text = this.scene.add
+        .text(0, 0, label, {
+          fontFamily: 'Poppins, sans-serif',
+          fontSize: '18px',
+          fontStyle: 'bold',
+          color: '#1e3d22',
+        })
+        .setOrigin(0.5, 0.5);
+      piece.add([bill, text]);
+      return piece;
+    }
+
+    // Pennies are copper, the rest silver
+    const coin = this.scene.add.circle(0, 0, this.getCoinRadius(value), value === 1 ? 0xc47a3a : 0xc9ced6, 1);
+    coin.setStrokeStyle(2, value === 1 ? 0x7a4a1e : 0x7d8590, 1);
+    const text = this.scene.add
+      .text(0, 0, label, {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '13px',
+        fontStyle: 'bold',
+        color: '#1b2d44',
+      })
+      .setOrigin(0.5, 0.5);
+    piece.add([coin, text]);
+    return piece;
+  }
+
+  // A dime is smaller than a penny, just like in the purse
+  private getCoinRadius(value: number): number {
+    switch (value) {
+      case 1:
+        return 18;
+      case 5:
+        return 20;
+      case 10:
+        return 16;
+      default:
+        return 23;
+    }
+  }
+
+  private createPowerUpButton(
+    x: number,
+    y: number,
+    label: string,
+    onPress: () => void
+  ): Phaser.GameObjects.Container {
+    const button = this.scene.add.container(x, y);
+
+    const background = this.scene.add.rectangle(0, 0, 130, 34, 0x2d4263, 0.95);
+    background.setStrokeStyle(2, 0x4cc9f0, 0.6);
+
+    const text = this.scene.add
+      .text(0, 0, label, {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '15px',
+        color: '#ffffff',
+        fontStyle: 'bold',
+      })
+      .setOrigin(0.5, 0.5);
+
+    button.add([background, text]);
+
+    background.setInteractive({ useHandCursor: true });
+    background.on('pointerdown', onPress);
+    background.on('pointerover', () => background.setScale(1.05));
+    background.on('pointerout', () => background.setScale(1));
+
+    return button;
   }
 
   private getDifficultyEmoji(difficulty: MathChallenge['difficulty']): string {
@@ -1,6 +1,15 @@
 import type { MathChallenge, Mob, Position, Tile } from '../../../../lib';
+import {
+  calculateAnswer,
+  collectKey,
+  countOnTotals,
+  formatChallenge,
+  formatMoney,
+  getClockMinuteStep,
+  getFactKey,
+} from '../../../../lib';
 import type { BoardController } from '../board/BoardController';
-import type { ChallengeController } from './ChallengeController';
+import type { AttemptResult, ChallengeController } from './ChallengeController';
 import type { MobController } from '../mob/MobController';
 import type { GameStateManager } from '../state/GameStateManager';
 
@@ -54,21 +63,78 @@ export class ChallengeManager {
       if (this.lastChallengeKey !== key) {
         this.lastChallengeKey = key;
         this.mobController.pauseMovement();
+        // Due review facts come back for this encounter only; the boss keeps its own challenge
+        const challenge = this.stateManager.takeDueReview(currentTile.bossChallenge);
         const tempTile = {
           ...currentTile,
-          challenge: currentTile.bossChallenge,
+          challenge,
           isCompleted: currentTile.isBossDefeated,
         };
         this.challengeController.present(tempTile, {
-          onSuccess: () => this.completeBossChallenge(currentTile),
+          onSuccess: () => this.completeBossChallenge(currentTile, challenge),
           onCancel: () => this.handleChallengeCancel(),
-          onFailure: (_, penalty) => this.handleChallengeFailure(penalty),
+          onFailure: (tile, penalty) => this.handleChallengeFailure(penalty, tile.challenge),
+          onAttempt: (challenge, result) => this.recordAttempt(challenge, result),
           getHint: (challenge) => this.getHint(challenge),
+          getHintsLeft: () => this.stateManager.getInventory().hints,
+          onUseHint: () => this.useHint(),
+        });
+      }
+      return;
+    }
+
+    // Check for an uncollected key guarded by a challenge
+    if (currentTile?.type === 'key' && currentTile.challenge && !currentTile.isCollected) {
+      const key = `key:${currentPosition.x},${currentPosition.y}`;
+      if (this.lastChallengeKey !== key) {
+        this.lastChallengeKey = key;
+        this.mobController.pauseMovement();
+        const tempTile = {
+          ...currentTile,
+          isCompleted: currentTile.isCollected,
+        };
+        this.challengeController.present(tempTile, {
+          onSuccess: () => this.completeKeyChallenge(currentTile),
+          onCancel: () => this.handleChallengeCancel(),
+          onFailure: (tile, penalty) => this.handleChallengeFailure(penalty, tile.challenge),
+          onAttempt: (challenge, result) => this.recordAttempt(challenge, result),
+          getHint: (challenge) => this.getHint(challenge),
+          getHintsLeft: () => this.stateManager.getInventory().hints,
+          onUseHint: () => this.useHint(),
         });
       }
       return;
     }
     
+    // Check for an unopened treasure chest (bonus challenge, no penalty)
+    if (currentTile?.type === 'chest' && currentTile.challenge && !currentTile.isCollected) {
+      const key = `chest:${currentPosition.x},${currentPosition.y}`;
+      if (this.lastChallengeKey !== key) {
+        this.lastChallengeKey = key;
+        this.mobController.pauseMovement();
+        const tempTile = {
+          ...currentTile,
+          isCompleted: currentTile.isCollected,
+        };
+        this.challengeController.present(tempTile, {
+          onSuccess: () => this.completeChestChallenge(currentTile),
+          onCancel: () => this.handleChallengeCancel(),
+          // A missed bonus just leaves the chest shut; step back off it
+          onFailure: (tile) => {
+            if (tile.challenge) {
+              this.stateManager.recordChallengeOutcome(tile.challenge, false);
+            }
+            this.handleChallengeCancel();
+          },
+          onAttempt: (challenge, result) => this.recordAttempt(challenge, result),
+          getHint: (challenge) => this.getHint(challenge),
+          getHintsLeft: () => this.stateManager.getInventory().hints,
+          onUseHint: () => this.useHint(),
+        });
+      }
+      return;
+    }
+
     // Check for mob collision
     const mob = this.mobController.getMobAtPosition(session.currentMap, currentPosition);
     if (mob) {
@@ -76,22 +142,28 @@ export class ChallengeManager {
       if (this.lastChallengeKey !== key) {
         this.lastChallengeKey = key;
         this.mobController.pauseMovement();
+        const challenge = this.stateManager.takeDueReview(mob.challenge);
         // Create a temporary tile object with the mob's challenge
         const tempTile = {
           position: currentPosition,
           type: 'challenge' as const,
           isAccessible: true,
-          challenge: mob.challenge,
+          challenge,
           isCompleted: mob.isCompleted,
           bossChallenge: undefined,
           isBossDefeated: false,
           mobType: mob.type,
         };
         this.challengeController.present(tempTile, {
-          onSuccess: () => this.completeMobChallenge(mob),
+          onSuccess: () => this.completeMobChallenge(mob, challenge),
           onCancel: () => this.handleChallengeCancel(),
-          onFailure: (_, penalty) => this.handleChallengeFailure(penalty),
+          onFailure: (tile, penalty) => this.handleChallengeFailure(penalty, tile.challenge),
+          onAttempt: (challenge, result) => this.recordAttempt(challenge, result),
           getHint: (challenge) => this.getHint(challenge),
+          getHintsLeft: () => this.stateManager.getInventory().hints,
+          onUseHint: () => this.useHint(),
+          getSkipsLeft: () => this.stateManager.getInventory().challengeSkips,
+          onSkip: () => this.skipMobChallenge(mob),
         });
       }
     } else {
@@ -114,6 +186,27 @@ export class ChallengeManager {
     this.previousPosition = null;
   }
 
+  /**
+   * Record a submitted answer in the attempt log and for the adaptive engine
+   */
+  private recordAttempt(challenge: MathChallenge, result: AttemptResult) {
+    const session = this.stateManager.getSession();
+    if (!session) {
+      return;
+    }
+
+    this.stateManager.recordAttempt({
+      challengeId: challenge.id,
+      playerId: session.player.id,
+      operation: challenge.operation,
+      difficulty: challenge.difficulty,
+      fact: getFactKey(challenge),
+      operands: challenge.operands,
+      ...result,
+      timestamp: new Date(),
+    });
+  }
+
   /**
    * Handle challenge cancellation - move player back
    */
@@ -135,12 +228,17 @@ export class ChallengeManager {
   /**
    * Handle challenge failure - deduct coins and reset position
    */
-  private handleChallengeFailure(penalty: number) {
+  private handleChallengeFailure(penalty: number, challenge?: MathChallenge) {
     const session = this.stateManager.getSession();
     if (!session) {
       return;
     }
 
+    // Keep the missed fact for spaced review
+    if (challenge) {
+      this.stateManager.recordChallengeOutcome(challenge, false);
+    }
+
     // Store current position before resetting
     const currentPosition = { ...session.player.currentPosition };
 
@@ -166,24 +264,30 @@ export class ChallengeManager {
   }
 
   /**
-   * Handle boss challenge completion
+   * Count a win towards the streak, floating any streak bonus (and boost used) up from the player
    */
-  private completeBossChallenge(tile: Tile) {
-    const session = this.stateManager.getSession();
-    if (!session || !tile.bossChallenge) {
-      return;
+  private awardStreak(position: Position) {
+    const { bonus, boosted } = this.stateManager.updateStreakAndStats();
+    if (bonus > 0) {
+      this.board.showStreakBonus(position, bonus, boosted);
     }
+  }
 
-    const { bossChallenge } = tile;
-    if (tile.isBossDefeated) {
+  /**
+   * Handle boss challenge completion for the challenge that was shown (the boss's own or a review)
+   */
+  private completeBossChallenge(tile: Tile, challenge: MathChallenge) {
+    const session = this.stateManager.getSession();
+    if (!session || tile.isBossDefeated) {
       return;
     }
 
     tile.isBossDefeated = true;
+    this.stateManager.recordChallengeOutcome(challenge, true);
     
     // Apply coin multiplier if active
-    this.stateManager.applyReward(bossChallenge.reward);
-    this.stateManager.updateStreakAndStats();
+    this.stateManager.applyReward(challenge.reward);
+    this.awardStreak(session.player.currentPosition);
     this.stateManager.updateLastPlayed();
 
     this.board.refreshTiles(session.currentMap, session.player.currentPosition);
@@ -194,24 +298,89 @@ export class ChallengeManager {
   }
 
   /**
-   * Handle mob challenge completion
+   * Handle key challenge completion - the key goes onto the map's key ring
    */
-  private completeMobChallenge(mob: Mob) {
+  private completeKeyChallenge(tile: Tile) {
     const session = this.stateManager.getSession();
-    if (!session) {
+    if (!session || !tile.challenge || !tile.keyColor || tile.isCollected) {
+      return;
+    }
+
+    tile.isCollected = true;
+    collectKey(session.currentMap, tile.keyColor);
+    this.stateManager.recordChallengeOutcome(tile.challenge, true);
+
+    this.stateManager.applyReward(tile.challenge.reward);
+    this.awardStreak(session.player.currentPosition);
+    this.stateManager.updateLastPlayed();
+
+    this.board.refreshTiles(session.currentMap, session.player.currentPosition);
+    this.stateManager.persistSession();
+    this.clearChallengeState();
+    this.mobController.resumeMovement();
+    this.callbacks.onChallengeComplete();
+  }
+
+  /**
+   * Handle chest challenge completion - hand out the chest's loot
+   */
+  private completeChestChallenge(tile: Tile) {
+    const session = this.stateManager.getSession();
+    if (!session || !tile.loot || tile.isCollected) {
       return;
     }
 
-    const { challenge } = mob;
-    if (mob.isCompleted) {
+    tile.isCollected = true;
+    this.stateManager.grantLoot(tile.loot);
+    if (tile.challenge) {
+      this.stateManager.recordChallengeOutcome(tile.challenge, true);
+    }
+    this.awardStreak(session.player.currentPosition);
+    this.stateManager.updateLastPlayed();
+
+    this.board.refreshTiles(session.currentMap, session.player.currentPosition);
+    this.board.showLoot(tile.position, tile.loot);
+    this.stateManager.persistSession();
+    this.clearChallengeState();
+    this.mobController.resumeMovement();
+    this.callbacks.onChallengeComplete();
+  }
+
+  /**
+   * Handle mob challenge completion for the challenge that was shown (the mob's own or a review)
+   */
+  private completeMobChallenge(mob: Mob, challenge: MathChallenge) {
+    const session = this.stateManager.getSession();
+    if (!session || mob.isCompleted) {
       return;
     }
 
     mob.isCompleted = true;
+    this.stateManager.recordChallengeOutcome(challenge, true);
     
     // Apply coin multiplier if active
     this.stateManager.applyReward(challenge.reward);
-    this.stateManager.updateStreakAndStats();
+    this.awardStreak(session.player.currentPosition);
+    this.stateManager.updateLastPlayed();
+
+    this.mobController.updateMobVisibility(session.currentMap);
+    this.board.refreshTiles(session.currentMap, session.player.currentPosition);
+    this.stateManager.persistSession();
+    this.clearChallengeState();
+    this.mobController.resumeMovement();
+    this.callbacks.onChallengeComplete();
+  }
+
+  /**
+   * Handle a challenge skip - the mob is beaten but pays no reward and the streak stays as it is
+   */
+  private skipMobChallenge(mob: Mob) {
+    const session = this.stateManager.getSession();
+    if (!session || mob.isCompleted || !this.stateManager.useItem('challengeSkips')) {
+      return;
+    }
+
+    mob.isCompleted = true;
     this.stateManager.updateLastPlayed();
 
     this.mobController.updateMobVisibility(session.currentMap);
@@ -222,22 +391,130 @@ export class ChallengeManager {
     this.callbacks.onChallengeComplete();
   }
 
+  /**
+   * Spend a hint charge on the challenge being shown
+   */
+  private useHint() {
+    if (this.stateManager.useItem('hints')) {
+      this.stateManager.persistSession();
+    }
+  }
+
   /**
    * Generate contextual hint for a challenge
    */
   private getHint(challenge: MathChallenge): string {
-    const [a, b] = challenge.operands;
+    const problem = formatChallenge(challenge);
+    if (challenge.missingOperand !== undefined) {
+      return this.getMissingOperandHint(challenge);
+    }
+
     switch (challenge.operation) {
       case 'addition':
-        return `Hint: Add the numbers together! ${a} + ${b} = ?`;
+        return `Hint: Add the numbers together! ${problem}`;
       case 'subtraction':
-        return `Hint: Take away the second number! ${a} - ${b} = ?`;
+        if (challenge.correctAnswer < 0) {
+          return `Hint: Taking away more than you have goes below zero - count back past 0! ${problem}`;
+        }
+        return challenge.operands.length > 2
+          ? `Hint: Take the numbers away one at a time! ${problem}`
+          : `Hint: Take away the second number! ${problem}`;
       case 'multiplication':
-        return `Hint: Multiply the numbers! ${a} × ${b} = ?`;
+        return `Hint: Multiply the numbers! ${problem}`;
       case 'division':
-        return `Hint: Divide the first number by the second! ${a} ÷ ${b} = ?`;
+        return `Hint: Divide the first number by the second! ${problem}`;
+      case 'order-of-operations':
+        return `Hint: Brackets first, then × and ÷, then + and - from left to right! ${problem}`;
+      case 'fraction-addition':
+      case 'fraction-subtraction': {
+        const verb = challenge.operation === 'fraction-addition' ? 'add' : 'subtract';
+        return challenge.operands[1] === challenge.operands[3]
+          ? `Hint: Keep the bottom number and ${verb} the top numbers! ${problem}`
+          : `Hint: Give both fractions the same bottom number first! ${problem}`;
+      }
+      case 'fraction-simplification':
+        return `Hint: Divide the top and bottom by the same number until you can't! ${problem}`;
+      case 'decimal-addition':
+      case 'decimal-subtraction':
+        return `Hint: Line up the decimal points, then work like whole numbers! ${problem}`;
+      case 'money-counting': {
+        if (challenge.moneyTask === 'pay') {
+          return `Hint: Take the biggest coin that fits, then add more until you reach the price! ${problem}`;
+        }
+        const [first, second] = countOnTotals(challenge.operands);
+        const dollars = challenge.correctAnswer >= 100 ? ' Each $1 is 100¢.' : '';
+        const counted = `${formatMoney(first)}, ${formatMoney(second)}, ...`;
+        return `Hint: Start with the biggest and count on: ${counted}${dollars}`;
+      }
+      case 'clock-reading':
+        return this.getClockHint(challenge);
+      case 'elapsed-time':
+        return 'Hint: Count on the whole hours first, then the minutes that are left!';
+      case 'number-pattern':
+        return this.getPatternHint(challenge);
       default:
         return 'Think about what operation you need to do!';
     }
   }
+
+  /**
+   * Hint for reading a clock, counting the long hand on in the steps its minutes can take
+   */
+  private getClockHint(challenge: MathChallenge): string {
+    if (challenge.clock?.start.minutes === 0) {
+      return `Hint: The long hand points straight up at 12, so it is something o'clock!`;
+    }
+    const step = getClockMinuteStep(challenge.difficulty);
+    const counting =
+      step % 5 === 0
+        ? `in ${step === 5 ? 'fives' : `${step}s`} from 12`
+        : 'in fives to the last number it passed, then one more for each small tick';
+    return `Hint: The short hand shows the hour; count the long hand on ${counting}!`;
+  }
+
+  /**
+   * Hint for "what comes next" patterns: point at the rule without giving the next number away
+   */
+  private getPatternHint(challenge: MathChallenge): string {
+    const problem = formatChallenge(challenge);
+    const [first, second] = challenge.operands;
+    const step = second - first;
+    switch (challenge.pattern) {
+      case 'skip-counting':
+        return `Hint: Count on in ${step}s! ${problem}`;
+      case 'doubling':
+        return `Hint: Each number is double the one before! ${problem}`;
+      case 'quadratic':
+        return `Hint: Look at the gaps - they grow by the same amount each time! ${problem}`;
+      default:
+        return step < 0
+          ? `Hint: Each number is ${-step} less than the one before! ${problem}`
+          : `Hint: How much is added each time? ${problem}`;
+    }
+  }
+
+  /**
+   * Hint for "3 + ? = 7" style challenges: turn it around into a problem they already know
+   */
+  private getMissingOperandHint(challenge: MathChallenge): string {
+    const [a, b] = challenge.operands;
+    const result = calculateAnswer(challenge.operation, challenge.operands);
+    const missingFirst = challenge.missingOperand === 0;
+    switch (challenge.operation) {
+      case 'addition':
+        return `Hint: Count up from ${missingFirst ? b : a} to ${result}! ${result} - ${missingFirst ? b : a} = ?`;
+      case 'subtraction':
+        return missingFirst
+          ? `Hint: Add back what was taken away! ${result} + ${b} = ?`
+          : `Hint: How far is it from ${result} up to ${a}? ${a} - ${result} = ?`;
+      case 'multiplication':
+        return `Hint: How many ${missingFirst ? b : a}s make ${result}? ${result} ÷ ${missingFirst ? b : a} = ?`;
+      case 'division':
+        return missingFirst
+          ? `Hint: Multiply back! ${result} × ${b} = ?`
+          : `Hint: What do you divide ${a} by to get ${result}? ${a} ÷ ${result} = ?`;
+      default:
+        return 'Think about which number is missing!';
+    }
+  }
 }
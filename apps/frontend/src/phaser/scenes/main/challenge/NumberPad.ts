@@ -1,8 +1,13 @@
 import Phaser from 'phaser';
+import type { AnswerFormat } from '../../../../lib';
 
 interface NumberPadOptions {
   scene: Phaser.Scene;
   y: number;
+  // Adds a fraction bar, decimal point or time colon key; plain digits when omitted
+  answerFormat?: AnswerFormat;
+  // Adds a minus key for difficulties whose answers can go below zero
+  allowNegative?: boolean;
   onNumberPress: (num: string) => void;
   onBackspace: () => void;
   onSubmit: () => void;
@@ -16,18 +21,36 @@ export interface NumberPadControl {
 }
 
 export function createNumberPad(options: NumberPadOptions): NumberPadControl {
-  const { scene, y, onNumberPress, onBackspace, onSubmit } = options;
+  const {
+    scene,
+    y,
+    answerFormat = 'integer',
+    allowNegative = false,
+    onNumberPress,
+    onBackspace,
+    onSubmit,
+  } = options;
 
   // Create container that will be positioned by parent (ChallengeController centers at scene center)
   const container = scene.add.container(0, y);
   container.setVisible(true);
 
-  // Single row layout with 0-9, backspace, and submit
-  const keys = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '⌫', '✓'];
+  // Single row layout with 0-9, any minus, the format's extra key, backspace, and submit
+  const formatKeys: Record<AnswerFormat, string[]> = {
+    integer: [],
+    fraction: ['/'],
+    decimal: ['.'],
+    time: [':'],
+    money: ['.'],
+  };
+  const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+  const signKeys = allowNegative ? ['−'] : [];
+  const keys = [...digits, ...signKeys, ...formatKeys[answerFormat], '⌫', '✓'];
 
-  const keyWidth = 38;
   const keyHeight = 32;
   const keySpacing = 4;
+  // Narrow the keys when extras are added so the row keeps its width
+  const keyWidth = Math.min(38, Math.floor((500 - (keys.length - 1) * keySpacing) / keys.length));
 
   // Calculate total width and starting position (relative to container origin at 0,0)
   const totalWidth = keys.length * keyWidth + (keys.length - 1) * keySpacing;
@@ -78,6 +101,9 @@ export function createNumberPad(options: NumberPadOptions): NumberPadControl {
         onBackspace();
       } else if (char === '✓') {
         onSubmit();
+      } else if (char === '−') {
+        // Shown as a proper minus sign, typed as a hyphen
+        onNumberPress('-');
       } else {
         onNumberPress(char);
       }
@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
 import type { MathChallenge } from '../../../../../lib';
+import { allowsNegativeNumbers, getSequenceSlips } from '../../../../../lib';
 
 interface BubbleShooterOptions {
   scene: Phaser.Scene;
@@ -7,6 +8,8 @@ interface BubbleShooterOptions {
   bounds: { x: number; y: number; width: number; height: number };
   onCorrect: () => void;
   onIncorrect: () => void;
+  // Called for every bubble hit, before onCorrect/onIncorrect
+  onAnswer?: (answer: number, isCorrect: boolean) => void;
 }
 
 export class BubbleShooterMinigame {
@@ -48,7 +51,7 @@ export class BubbleShooterMinigame {
     const { scene, challenge, bounds } = this.options;
     
     // Generate 3 wrong answers
-    const wrongAnswers = this.generateWrongAnswers(challenge.correctAnswer);
+    const wrongAnswers = this.generateWrongAnswers(challenge);
     const allAnswers = [challenge.correctAnswer, ...wrongAnswers];
     
     // Shuffle answers
@@ -350,6 +353,7 @@ export class BubbleShooterMinigame {
     if (!this.isActive) return;
 
     const isCorrect = bubble.getData('isCorrect');
+    this.options.onAnswer?.(bubble.getData('answer'), isCorrect);
     
     // Stop the arrow tween to prevent handleMiss from being called
     if (this.arrowTween) {
@@ -465,13 +469,33 @@ export class BubbleShooterMinigame {
     }
   }
 
-  private generateWrongAnswers(correctAnswer: number): number[] {
+  /**
+   * Pick three distractors near the answer. Where negatives are in play, the answer with its sign
+   * flipped is offered as the classic slip; otherwise distractors never drop below zero.
+   * Number patterns offer the answers a wrong guess at the rule would give.
+   */
+  private generateWrongAnswers(challenge: MathChallenge): number[] {
+    const { correctAnswer } = challenge;
+    const allowNegative = allowsNegativeNumbers(challenge.difficulty);
     const wrong: number[] = [];
+    if (allowNegative && correctAnswer !== 0) {
+      wrong.push(-correctAnswer);
+    }
+    if (challenge.operation === 'number-pattern') {
+      const slips = getSequenceSlips(challenge.operands).filter(
+        (slip) => (allowNegative || slip >= 0) && !wrong.includes(slip)
+      );
+      wrong.push(...Phaser.Utils.Array.Shuffle(slips).slice(0, 2));
+    }
+
     const range = Math.abs(correctAnswer) + 10;
     
     while (wrong.length < 3) {
       const offset = Phaser.Math.Between(-range, range);
       const wrongAnswer = correctAnswer + offset;
+      if (!allowNegative && wrongAnswer < 0) {
+        continue;
+      }
       
       if (wrongAnswer !== correctAnswer && !wrong.includes(wrongAnswer)) {
         wrong.push(wrongAnswer);
@@ -1,11 +1,48 @@
+import type { KeyColor, LootKind, MathOperation } from '../../../lib';
+
 export const TILE_GAP = 4; // Minimal gap for maximum tile size on mobile
 export const PLAYER_COLOR = 0x4cc9f0;
+export const FOG_COLOR = 0x050b16;
 export const MENU_BG_COLOR = 0x0d1b2a;
 export const MENU_BORDER_COLOR = 0x415a77;
 export const MENU_BUTTON_COLOR = 0x4895ef;
 export const MENU_BUTTON_DISABLED = 0x274060;
+export const KEY_COLORS: Record<KeyColor, { closed: number; open: number; swatch: string }> = {
+  red: { closed: 0xe63946, open: 0x5c2a3a, swatch: '🟥' },
+  blue: { closed: 0x4361ee, open: 0x2b3a7a, swatch: '🟦' },
+  green: { closed: 0x2a9d8f, open: 0x1f5550, swatch: '🟩' },
+  yellow: { closed: 0xe9c46a, open: 0x6b5a32, swatch: '🟨' },
+};
+// Shown floating over a chest as it opens
+export const LOOT_LABELS: Record<LootKind, string> = {
+  coins: '💰',
+  coinMultiplierCharges: '2x charges',
+  hints: '💡 hints',
+  streakBoosts: '⚡ streak boost',
+  challengeSkips: '⏭️ skip',
+};
+export const OPERATION_LABELS: Record<MathOperation, string> = {
+  addition: 'Addition',
+  subtraction: 'Subtraction',
+  multiplication: 'Multiplication',
+  division: 'Division',
+  'order-of-operations': 'Order of operations',
+  'fraction-addition': 'Adding fractions',
+  'fraction-subtraction': 'Subtracting fractions',
+  'fraction-simplification': 'Simplifying fractions',
+  'decimal-addition': 'Adding decimals',
+  'decimal-subtraction': 'Subtracting decimals',
+  'money-counting': 'Counting money',
+  'clock-reading': 'Telling the time',
+  'elapsed-time': 'Elapsed time',
+  'number-pattern': 'Number patterns',
+};
 export const STORAGE_KEY = 'math-cash-save';
 export const FIXED_MAP_SIZE = 16;
+// Play time is added up in the scene and handed to the save this often
+export const PLAY_TIME_FLUSH_SECONDS = 5;
+// Days of play time kept for the progress report
+export const PLAY_TIME_DAYS_KEPT = 365;
 
 export const ENCOURAGEMENTS = [
   'Not quite right, try again! 🤔',
@@ -1,11 +1,13 @@
 import Phaser from 'phaser';
 import type { GameSession } from '../../../../lib';
+import { KEY_COLORS } from '../constants';
 
 interface HudTexts {
   player: Phaser.GameObjects.Text;
   currency: Phaser.GameObjects.Text;
   streak: Phaser.GameObjects.Text;
   difficulty: Phaser.GameObjects.Text;
+  inventory: Phaser.GameObjects.Text;
   instructions: Phaser.GameObjects.Text;
   menuHint: Phaser.GameObjects.Text;
 }
@@ -72,6 +74,13 @@ export class HudController {
       color: '#bde0fe',
     });
 
+    // Shop items waiting to be used, on a line under the coins
+    const inventory = this.scene.add.text(currency.x, topY + (isMobile ? 20 : 28), '', {
+      fontFamily: 'Poppins, sans-serif',
+      fontSize: statFontSize,
+      color: '#cdb4db',
+    });
+
     const instructions = this.scene.add.text(0, 0, isMobile ? 'Swipe to move' : 'Use arrow keys or WASD to move. Step on challenge tiles to play!', {
       fontFamily: 'Poppins, sans-serif',
       fontSize: instructionFontSize,
@@ -87,10 +96,10 @@ export class HudController {
       align: 'center',
     });
 
-    container.add([player, currency, streak, difficulty, instructions, menuHint]);
+    container.add([player, currency, streak, difficulty, inventory, instructions, menuHint]);
 
     this.container = container;
-    this.texts = { player, currency, streak, difficulty, instructions, menuHint };
+    this.texts = { player, currency, streak, difficulty, inventory, instructions, menuHint };
     this.position();
   }
 
@@ -109,7 +118,18 @@ export class HudController {
     this.texts.currency.setText(coinText);
     
     this.texts.streak.setText(`🔥 Current Streak: ${player.currentStreak}`);
-    this.texts.difficulty.setText(`🎯 Level: ${currentMap.difficulty}`);
+    const keyRing = (currentMap.heldKeys ?? []).map((color) => KEY_COLORS[color].swatch).join('');
+    this.texts.difficulty.setText(
+      keyRing ? `🎯 Level: ${currentMap.difficulty}  🔑 ${keyRing}` : `🎯 Level: ${currentMap.difficulty}`
+    );
+
+    const { hints, streakBoosts, challengeSkips } = player.inventory;
+    const items = [
+      hints > 0 ? `💡 ${hints}` : '',
+      streakBoosts > 0 ? `⚡ ${streakBoosts}` : '',
+      challengeSkips > 0 ? `⏭️ ${challengeSkips}` : '',
+    ].filter(Boolean);
+    this.texts.inventory.setText(items.length > 0 ? `🎒 ${items.join('  ')}` : '');
   }
 
   position() {
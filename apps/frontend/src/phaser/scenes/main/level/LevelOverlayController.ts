@@ -16,7 +16,7 @@ export class LevelOverlayController {
     return this.active;
   }
 
-  show(session: GameSession, callbacks: LevelOverlayCallbacks) {
+  show(session: GameSession, callbacks: LevelOverlayCallbacks, interestEarned = 0) {
     this.hide();
     this.active = true;
 
@@ -34,7 +34,9 @@ export class LevelOverlayController {
     container.appendChild(heading);
 
     const message = document.createElement('div');
-    message.innerHTML = `Earned so far: <strong>💰 ${session.player.currency}</strong><br/>Ready for the next challenge?`;
+    const interest =
+      interestEarned > 0 ? `🏦 Your savings earned <strong>${interestEarned} coins</strong> interest!<br/>` : '';
+    message.innerHTML = `Earned so far: <strong>💰 ${session.player.currency}</strong><br/>${interest}Ready for the next challenge?`;
     message.style.fontSize = '18px';
     message.style.marginBottom = '24px';
     container.appendChild(message);
@@ -1,4 +1,4 @@
-import { generateTileMap, getNextDifficulty } from '../../../../lib';
+import { generateTileMap, getChallengeTuning, recommendDifficulty } from '../../../../lib';
 import { FIXED_MAP_SIZE } from '../constants';
 import type { GameStateManager } from '../state/GameStateManager';
 import type { LevelOverlayController } from '../level/LevelOverlayController';
@@ -46,6 +46,14 @@ export class MapProgressionManager {
       return;
     }
 
+    // Savings earn interest once for each completed map
+    let interest = 0;
+    if (!map.isCompleted) {
+      map.isCompleted = true;
+      interest = this.stateManager.payInterest();
+      this.stateManager.persistSession();
+    }
+
     this.mobController.stopMovement();
     this.levelOverlay.show(session, {
       onAdvance: () => {
@@ -56,7 +64,7 @@ export class MapProgressionManager {
         this.callbacks.onMapComplete();
         this.stateManager.persistSession();
       },
-    });
+    }, interest);
   }
 
   /**
@@ -68,9 +76,13 @@ export class MapProgressionManager {
       return;
     }
 
-    const nextDifficulty = getNextDifficulty(session.currentMap.difficulty);
+    // The adaptive engine picks the next level (up, same or down) and tunes its challenge mix
+    const mastery = session.player.mastery ?? {};
+    const nextDifficulty = recommendDifficulty(mastery, session.currentMap.difficulty);
     const nextMapId = `map-${session.player.completedMaps.length + 2}`;
-    const newMap = generateTileMap(nextMapId, FIXED_MAP_SIZE, FIXED_MAP_SIZE, nextDifficulty);
+    const newMap = generateTileMap(nextMapId, FIXED_MAP_SIZE, FIXED_MAP_SIZE, nextDifficulty, {
+      tuning: getChallengeTuning(mastery),
+    });
 
     session.player.completedMaps = [...session.player.completedMaps, session.currentMap.id];
     session.player.currentMapId = nextMapId;
@@ -6,7 +6,9 @@ import { createMenuButton, createSessionStats } from './components';
 interface MenuControllerOptions {
   onStartAdventure(): void;
   onContinueJourney(): void;
+  onShowReport(): void;
   getSession(): GameSession | null;
+  hasSavedProfiles(): boolean;
 }
 
 export class MenuController {
@@ -50,7 +52,7 @@ export class MenuController {
       })
       .setOrigin(0.5, 0.5);
 
-    const startButtonY = subtitle.y + 120;
+    const startButtonY = subtitle.y + 95;
     const startButton = createMenuButton(this.scene, {
       label: 'Start Adventure',
       y: startButtonY,
@@ -64,12 +66,13 @@ export class MenuController {
     });
 
     const hasSession = Boolean(this.options.getSession());
-    const continueButtonY = startButtonY + 86;
+    const hasSavedProfiles = this.options.hasSavedProfiles();
+    const continueButtonY = startButtonY + 84;
     const continueButton = createMenuButton(this.scene, {
-      label: hasSession ? 'Continue Journey' : 'Continue (Locked)',
+      label: hasSavedProfiles ? 'Continue Journey' : 'Continue (Locked)',
       y: continueButtonY,
       onClick: () => this.options.onContinueJourney(),
-      disabled: !hasSession,
+      disabled: !hasSavedProfiles,
       fillColor: 0x4361ee,
       disabledFillColor: 0x1e2b44,
       textColor: '#ffffff',
@@ -77,18 +80,32 @@ export class MenuController {
       width: contentWidth,
     });
 
+    const reportButtonY = continueButtonY + 84;
+    const reportButton = createMenuButton(this.scene, {
+      label: hasSession ? 'Parent Report' : 'Parent Report (Locked)',
+      y: reportButtonY,
+      onClick: () => this.options.onShowReport(),
+      disabled: !hasSession,
+      fillColor: 0x2a9d8f,
+      disabledFillColor: 0x1e2b44,
+      textColor: '#ffffff',
+      glowColor: 0x72efdd,
+      width: contentWidth,
+    });
+
     container.add([
       panel,
       title,
       subtitle,
       startButton.container,
       continueButton.container,
+      reportButton.container,
     ]);
 
     const session = this.options.getSession();
     if (session) {
       const statsBoxWidth = panelWidth * 0.82;
-      const statsY = continueButtonY + 120;
+      const statsY = reportButtonY + 105;
       const statsContainer = createSessionStats(this.scene, {
         session,
         width: statsBoxWidth,
@@ -98,7 +115,7 @@ export class MenuController {
     }
 
     const hint = this.scene.add
-      .text(0, panelHeight / 2 - 50, 'Tip: Swipe or use arrow keys to move. Press M to return here.', {
+      .text(0, panelHeight / 2 - 30, 'Tip: Swipe or use arrow keys to move. Press M to return here.', {
         fontFamily: 'Poppins, sans-serif',
         fontSize: '16px',
         color: '#9fb3d9',
@@ -109,6 +126,7 @@ export class MenuController {
 
     container.bringToTop(startButton.container);
     container.bringToTop(continueButton.container);
+    container.bringToTop(reportButton.container);
 
     this.container = container;
   }
@@ -1,20 +1,58 @@
 import Phaser from 'phaser';
-import type { GameSession } from '../../../../lib';
+import type { PlayerProfile } from '../../../../lib';
 import { MENU_BG_COLOR, MENU_BORDER_COLOR, MENU_BUTTON_COLOR } from '../constants';
-import { createMenuButton, createSessionStats } from './components';
+import { createMenuButton, createNameInput, NameInputControl } from './components';
+
+// A save file that has been read and checked, waiting to be added
+export interface PendingImport {
+  name: string;
+  // The saved player the file would replace, when it has the same id
+  replaces?: PlayerProfile;
+  // Whether the file was last played before the save it replaces
+  isOlder: boolean;
+  apply(): void;
+}
 
 interface PlayerSelectionOptions {
-  onPlayerSelected(session: GameSession): void;
+  onPlayerSelected(profileId: string): Promise<void>;
+  onRestorePlayer(profileId: string): Promise<void>;
+  onRenamePlayer(profileId: string, name: string): Promise<void>;
+  onDeletePlayer(profileId: string): void;
+  onExportPlayer(profileId: string): Promise<void>;
+  // Resolves to the file's player, or null if no file was chosen
+  onImportPlayer(): Promise<PendingImport | null>;
   onBack(): void;
-  getSession(): GameSession | null;
+  getProfiles(): PlayerProfile[];
+  getActiveProfileId(): string | null;
+  // Set for players whose save failed to load
+  getDamage(profileId: string): { hasBackup: boolean } | null;
+  // This device's family sync code, and joining another device's family by its code
+  getFamilyCode(): string;
+  onJoinFamily(code: string): void;
 }
 
+const ROW_HEIGHT = 76;
+const CARD_HEIGHT = 64;
+
+// Family codes are 32 hex digits, shown in groups of eight
+const FAMILY_CODE_LENGTH = 32;
+
 /**
- * Controller for selecting a saved player to continue with
- * Currently supports single player, but structured for future multi-player support
+ * Controller for picking, renaming, deleting, exporting and importing saved players, and for
+ * joining another device's sync family
  */
 export class PlayerSelectionController {
   private container?: Phaser.GameObjects.Container;
+  private nameInput?: NameInputControl;
+  private page = 0;
+  // Delete asks for a second tap on the same profile
+  private pendingDeleteId?: string;
+  private renaming?: { profile: PlayerProfile; name: string };
+  private joiningFamily?: { code: string };
+  // Outcome of the last import or export, shown in place of the subtitle
+  private status?: { message: string; isError: boolean };
+  // An import that replaces a saved player asks for a second tap on Import
+  private pendingImport?: PendingImport;
 
   constructor(
     private readonly scene: Phaser.Scene,
@@ -22,6 +60,8 @@ export class PlayerSelectionController {
   ) {}
 
   destroy() {
+    this.nameInput?.destroy();
+    this.nameInput = undefined;
     this.container?.destroy(true);
     this.container = undefined;
   }
@@ -40,52 +80,90 @@ export class PlayerSelectionController {
     const panel = this.scene.add.rectangle(0, 0, panelWidth, panelHeight, MENU_BG_COLOR, 0.92);
     panel.setOrigin(0.5, 0.5);
     panel.setStrokeStyle(4, MENU_BORDER_COLOR, 0.85);
+    container.add(panel);
+    this.container = container;
+
+    if (this.renaming) {
+      this.renderRename(container, panelHeight, contentWidth);
+      return;
+    }
+    if (this.joiningFamily) {
+      this.renderJoinFamily(container, panelHeight, contentWidth);
+      return;
+    }
 
     const title = this.scene.add
-      .text(0, -panelHeight / 2 + 80, '👥 Choose Your Hero', {
+      .text(0, -panelHeight / 2 + 70, '👥 Choose Your Hero', {
         fontFamily: 'Poppins, sans-serif',
-        fontSize: '48px',
+        fontSize: '44px',
         color: '#ffffff',
       })
       .setOrigin(0.5, 0.5);
 
     const subtitle = this.scene.add
-      .text(0, title.y + 60, 'Select a saved adventure to continue', {
+      .text(0, title.y + 52, this.status?.message ?? 'Select a saved adventure to continue', {
         fontFamily: 'Poppins, sans-serif',
         fontSize: '20px',
-        color: '#dce8ff',
+        color: this.status?.isError ? '#ffccd5' : this.status ? '#72efdd' : '#dce8ff',
+        align: 'center',
+        wordWrap: { width: contentWidth + 40 },
       })
       .setOrigin(0.5, 0.5);
 
-    container.add([panel, title, subtitle]);
-
-    const session = this.options.getSession();
-    if (session) {
-      // Player card with stats
-      const cardY = subtitle.y + 100;
-      const statsBoxWidth = panelWidth * 0.82;
-      const statsContainer = createSessionStats(this.scene, {
-        session,
-        width: statsBoxWidth,
-        y: cardY,
-      });
-      container.add(statsContainer);
-
-      // Select button for this player
-      const selectButtonY = cardY + 180;
-      const selectButton = createMenuButton(this.scene, {
-        label: 'Continue as ' + session.player.name,
-        y: selectButtonY,
-        onClick: () => this.options.onPlayerSelected(session),
-        disabled: false,
-        fillColor: MENU_BUTTON_COLOR,
-        disabledFillColor: 0x1e2b44,
-        textColor: '#ffffff',
-        glowColor: 0x9bc9ff,
-        width: contentWidth,
-      });
-      container.add(selectButton.container);
-    } else {
+    container.add([title, subtitle]);
+
+    // Back, import and family buttons side by side at the bottom
+    const backButtonY = panelHeight / 2 - 80;
+    const buttonWidth = contentWidth / 3 - 8;
+    const backButton = createMenuButton(this.scene, {
+      label: '← Back',
+      y: backButtonY,
+      onClick: () => {
+        this.status = undefined;
+        if (this.pendingImport) {
+          this.pendingImport = undefined;
+          this.render();
+          return;
+        }
+        this.options.onBack();
+      },
+      disabled: false,
+      fillColor: 0x4361ee,
+      disabledFillColor: 0x1e2b44,
+      textColor: '#ffffff',
+      glowColor: 0x88b2ff,
+      width: buttonWidth,
+    });
+    backButton.container.setX(-buttonWidth - 12);
+
+    const importButton = createMenuButton(this.scene, {
+      label: this.pendingImport ? '⚠️ Replace' : '📥 Import',
+      y: backButtonY,
+      onClick: () =>
+        this.pendingImport ? this.applyImport(this.pendingImport) : this.importPlayer(),
+      fillColor: 0x2a9d8f,
+      glowColor: 0x72efdd,
+      width: buttonWidth,
+    });
+
+    const familyButton = createMenuButton(this.scene, {
+      label: '👪 Family',
+      y: backButtonY,
+      onClick: () => {
+        this.status = undefined;
+        this.pendingDeleteId = undefined;
+        this.pendingImport = undefined;
+        this.joiningFamily = { code: '' };
+        this.render();
+      },
+      fillColor: MENU_BUTTON_COLOR,
+      width: buttonWidth,
+    });
+    familyButton.container.setX(buttonWidth + 12);
+    container.add([backButton.container, importButton.container, familyButton.container]);
+
+    const profiles = this.options.getProfiles();
+    if (profiles.length === 0) {
       // No saved player found
       const noPlayerText = this.scene.add
         .text(0, subtitle.y + 120, 'No saved adventures found.\nStart a new adventure instead!', {
@@ -96,23 +174,388 @@ export class PlayerSelectionController {
         })
         .setOrigin(0.5, 0.5);
       container.add(noPlayerText);
+      return;
     }
 
-    // Back button at the bottom
-    const backButtonY = panelHeight / 2 - 80;
-    const backButton = createMenuButton(this.scene, {
-      label: '← Back to Menu',
-      y: backButtonY,
-      onClick: () => this.options.onBack(),
-      disabled: false,
+    // Fit as many rows as there is room for, paging through the rest
+    const listTop = subtitle.y + 40;
+    const pagerY = backButtonY - 78;
+    const rowsPerPage = Math.max(1, Math.floor((pagerY - 24 - listTop) / ROW_HEIGHT));
+    const pageCount = Math.ceil(profiles.length / rowsPerPage);
+    this.page = Math.min(this.page, pageCount - 1);
+
+    const activeProfileId = this.options.getActiveProfileId();
+    profiles.slice(this.page * rowsPerPage, (this.page + 1) * rowsPerPage).forEach((profile, index) => {
+      const rowY = listTop + ROW_HEIGHT * index + ROW_HEIGHT / 2;
+      container.add(
+        this.createProfileRow(profile, rowY, contentWidth + 40, profile.id === activeProfileId)
+      );
+    });
+
+    if (pageCount > 1) {
+      container.add(this.createPager(pagerY, pageCount));
+    }
+  }
+
+  private createProfileRow(
+    profile: PlayerProfile,
+    y: number,
+    width: number,
+    isActive: boolean
+  ): Phaser.GameObjects.Container {
+    const row = this.scene.add.container(0, y);
+    const confirmingDelete = this.pendingDeleteId === profile.id;
+    const damage = this.options.getDamage(profile.id);
+
+    const card = this.scene.add.rectangle(0, 0, width, CARD_HEIGHT, 0x0f2239, 0.85);
+    card.setOrigin(0.5, 0.5);
+    card.setStrokeStyle(isActive ? 3 : 2, isActive ? 0x72efdd : MENU_BORDER_COLOR, 0.8);
+    card.setInteractive({ useHandCursor: true });
+    card.on('pointerup', () => {
+      if (!damage) {
+        this.options.onPlayerSelected(profile.id).catch((error: unknown) => {
+          this.showError('Loading failed', error);
+        });
+      } else if (damage.hasBackup) {
+        this.options.onRestorePlayer(profile.id).catch((error: unknown) => {
+          this.showError('Restore failed', error);
+        });
+      }
+    });
+
+    const left = -width / 2 + 18;
+    const name = this.scene.add
+      .text(left, -12, profile.name, {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '22px',
+        fontStyle: 'bold',
+        color: '#ffffff',
+      })
+      .setOrigin(0, 0.5);
+
+    const details = this.scene.add
+      .text(left, 14, this.getDetails(profile, confirmingDelete, damage), {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '15px',
+        color: confirmingDelete || damage ? '#ffccd5' : '#cbd5f5',
+      })
+      .setOrigin(0, 0.5);
+
+    const exportButton = this.createIconButton(width / 2 - 134, '💾', 0x2a9d8f, () => {
+      this.options.onExportPlayer(profile.id).catch((error: unknown) => {
+        this.showError('Export failed', error);
+      });
+    });
+
+    const renameButton = this.createIconButton(width / 2 - 84, '✏️', MENU_BUTTON_COLOR, () => {
+      this.pendingDeleteId = undefined;
+      this.renaming = { profile, name: profile.name };
+      this.render();
+    });
+
+    const deleteButton = this.createIconButton(
+      width / 2 - 34,
+      '🗑️',
+      confirmingDelete ? 0xe63946 : 0x1e2b44,
+      () => {
+        if (!confirmingDelete) {
+          this.pendingDeleteId = profile.id;
+          this.render();
+          return;
+        }
+
+        this.pendingDeleteId = undefined;
+        this.options.onDeletePlayer(profile.id);
+        this.render();
+      }
+    );
+
+    row.add([card, name, details, exportButton, renameButton, deleteButton]);
+    return row;
+  }
+
+  private getDetails(
+    profile: PlayerProfile,
+    confirmingDelete: boolean,
+    damage: { hasBackup: boolean } | null
+  ): string {
+    if (confirmingDelete) {
+      return 'Tap 🗑️ again to delete this save';
+    }
+    if (damage) {
+      return damage.hasBackup
+        ? "This save can't be read · tap to restore the backup"
+        : "This save can't be read and has no backup";
+    }
+    return `Level: ${profile.difficulty} · 💰 ${profile.currency}`;
+  }
+
+  private importPlayer() {
+    this.options.onImportPlayer().then(
+      (pending) => {
+        if (!pending || !this.container) {
+          return;
+        }
+        if (!pending.replaces) {
+          this.applyImport(pending);
+          return;
+        }
+
+        const { name } = pending.replaces;
+        this.pendingImport = pending;
+        this.status = {
+          message: pending.isOlder
+            ? `This file has older progress than ${name}'s save here. Tap Replace to use it anyway.`
+            : `This file replaces ${name}'s save here. Tap Replace to continue.`,
+          isError: true,
+        };
+        this.render();
+      },
+      (error: unknown) => this.showError('Import failed', error)
+    );
+  }
+
+  private applyImport(pending: PendingImport) {
+    this.pendingImport = undefined;
+    pending.apply();
+    this.status = { message: `Imported ${pending.name}'s adventure!`, isError: false };
+    this.page = 0;
+    this.render();
+  }
+
+  private showError(action: string, error: unknown) {
+    if (!this.container) {
+      return;
+    }
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    this.status = { message: `${action}: ${reason}`, isError: true };
+    this.render();
+  }
+
+  private createIconButton(
+    x: number,
+    icon: string,
+    color: number,
+    onClick: () => void
+  ): Phaser.GameObjects.Container {
+    const button = this.scene.add.container(x, 0);
+    const background = this.scene.add.circle(0, 0, 20, color, 1);
+    background.setStrokeStyle(2, 0xffffff, 0.32);
+    background.setInteractive({ useHandCursor: true });
+    background.on('pointerup', onClick);
+
+    const label = this.scene.add.text(0, 0, icon, { fontSize: '18px' }).setOrigin(0.5, 0.5);
+    button.add([background, label]);
+    return button;
+  }
+
+  private createPager(y: number, pageCount: number): Phaser.GameObjects.Container {
+    const pager = this.scene.add.container(0, y);
+    const label = this.scene.add
+      .text(0, 0, `Page ${this.page + 1} of ${pageCount}`, {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '16px',
+        color: '#9fb3d9',
+      })
+      .setOrigin(0.5, 0.5);
+
+    const previous = this.createIconButton(-110, '◀', MENU_BUTTON_COLOR, () => {
+      this.page = (this.page - 1 + pageCount) % pageCount;
+      this.pendingDeleteId = undefined;
+      this.render();
+    });
+    const next = this.createIconButton(110, '▶', MENU_BUTTON_COLOR, () => {
+      this.page = (this.page + 1) % pageCount;
+      this.pendingDeleteId = undefined;
+      this.render();
+    });
+
+    pager.add([label, previous, next]);
+    return pager;
+  }
+
+  private renderRename(
+    container: Phaser.GameObjects.Container,
+    panelHeight: number,
+    contentWidth: number
+  ) {
+    const renaming = this.renaming!;
+
+    const title = this.scene.add
+      .text(0, -panelHeight / 2 + 70, '✏️ Rename Hero', {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '44px',
+        color: '#ffffff',
+      })
+      .setOrigin(0.5, 0.5);
+
+    const subtitle = this.scene.add
+      .text(0, title.y + 60, `What should we call ${renaming.profile.name} now?`, {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '20px',
+        color: '#dce8ff',
+      })
+      .setOrigin(0.5, 0.5);
+
+    const save = () => {
+      const name = renaming.name.trim();
+      if (!name) {
+        return;
+      }
+
+      this.renaming = undefined;
+      this.options.onRenamePlayer(renaming.profile.id, name).then(
+        () => {
+          if (this.container) {
+            this.render();
+          }
+        },
+        (error: unknown) => this.showError('Rename failed', error)
+      );
+      this.render();
+    };
+
+    const nameInputY = subtitle.y + 90;
+    const nameInput = createNameInput(this.scene, {
+      y: nameInputY,
+      width: contentWidth,
+      initialValue: renaming.name,
+      parentContainer: container,
+      onInput: (value) => {
+        renaming.name = value;
+      },
+      onSubmit: save,
+    });
+    this.nameInput = nameInput;
+
+    // Buttons sit below the space the on-screen keyboard takes
+    const buttonY = nameInputY + 300;
+    const buttonWidth = contentWidth / 2 - 8;
+    const saveButton = createMenuButton(this.scene, {
+      label: 'Save',
+      y: buttonY,
+      onClick: save,
+      fillColor: MENU_BUTTON_COLOR,
+      width: buttonWidth,
+    });
+    saveButton.container.setX(-buttonWidth / 2 - 8);
+
+    const cancelButton = createMenuButton(this.scene, {
+      label: 'Cancel',
+      y: buttonY,
+      onClick: () => {
+        this.renaming = undefined;
+        this.render();
+      },
       fillColor: 0x4361ee,
-      disabledFillColor: 0x1e2b44,
-      textColor: '#ffffff',
       glowColor: 0x88b2ff,
-      width: contentWidth * 0.8,
+      width: buttonWidth,
     });
-    container.add(backButton.container);
+    cancelButton.container.setX(buttonWidth / 2 + 8);
 
-    this.container = container;
+    container.add([title, subtitle, nameInput.container, saveButton.container, cancelButton.container]);
+  }
+  private renderJoinFamily(
+    container: Phaser.GameObjects.Container,
+    panelHeight: number,
+    contentWidth: number
+  ) {
+    const joining = this.joiningFamily!;
+    const ownCode = this.options.getFamilyCode().match(/.{1,8}/g)?.join(' ') ?? '';
+
+    const title = this.scene.add
+      .text(0, -panelHeight / 2 + 70, '👪 Family Sync', {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '44px',
+        color: '#ffffff',
+      })
+      .setOrigin(0.5, 0.5);
+
+    const subtitle = this.scene.add
+      .text(
+        0,
+        title.y + 70,
+        `This device's family code:\n${ownCode}\n` +
+          "Enter another device's code to keep its players in step with this one.",
+        {
+          fontFamily: 'Poppins, sans-serif',
+          fontSize: '18px',
+          color: '#dce8ff',
+          align: 'center',
+          wordWrap: { width: contentWidth + 40 },
+        }
+      )
+      .setOrigin(0.5, 0.5);
+
+    const join = () => {
+      try {
+        this.options.onJoinFamily(joining.code);
+      } catch (error) {
+        this.showError('Joining failed', error);
+        return;
+      }
+      this.joiningFamily = undefined;
+      this.status = { message: 'This device now syncs with that family', isError: false };
+      this.render();
+    };
+
+    const codeInputY = subtitle.y + 90;
+    const codeInput = createNameInput(this.scene, {
+      y: codeInputY,
+      width: contentWidth,
+      initialValue: joining.code,
+      parentContainer: container,
+      maxLength: FAMILY_CODE_LENGTH + 3,
+      onInput: (value) => {
+        joining.code = value;
+      },
+      onSubmit: join,
+    });
+    this.nameInput = codeInput;
+
+    const errorText = this.scene.add
+      .text(0, codeInputY + 60, this.status?.isError ? this.status.message : '', {
+        fontFamily: 'Poppins, sans-serif',
+        fontSize: '16px',
+        color: '#ffccd5',
+        align: 'center',
+        wordWrap: { width: contentWidth + 40 },
+      })
+      .setOrigin(0.5, 0.5);
+
+    // Buttons sit below the space the on-screen keyboard takes
+    const buttonY = codeInputY + 300;
+    const buttonWidth = contentWidth / 2 - 8;
+    const joinButton = createMenuButton(this.scene, {
+      label: 'Join',
+      y: buttonY,
+      onClick: join,
+      fillColor: MENU_BUTTON_COLOR,
+      width: buttonWidth,
+    });
+    joinButton.container.setX(-buttonWidth / 2 - 8);
+
+    const cancelButton = createMenuButton(this.scene, {
+      label: 'Cancel',
+      y: buttonY,
+      onClick: () => {
+        this.joiningFamily = undefined;
+        this.status = undefined;
+        this.render();
+      },
+      fillColor: 0x4361ee,
+      glowColor: 0x88b2ff,
+      width: buttonWidth,
+    });
+    cancelButton.container.setX(buttonWidth / 2 + 8);
+
+    container.add([
+      title,
+      subtitle,
+      codeInput.container,
+      errorText,
+      joinButton.container,
+      cancelButton.container,
+    ]);
   }
 }
@@ -8,6 +8,8 @@ interface NameInputOptions {
   onInput(value: string): void;
   onSubmit(): void;
   parentContainer?: Phaser.GameObjects.Container;
+  // Longest value that can be typed; names stop at 20 characters
+  maxLength?: number;
 }
 
 export interface NameInputControl {
@@ -19,7 +21,7 @@ export interface NameInputControl {
 }
 
 export function createNameInput(scene: Phaser.Scene, options: NameInputOptions): NameInputControl {
-  const { y, width, initialValue, onInput, onSubmit, parentContainer } = options;
+  const { y, width, initialValue, onInput, onSubmit, parentContainer, maxLength = 20 } = options;
   const height = 64;
   
   const container = scene.add.container(0, y);
@@ -84,7 +86,7 @@ export function createNameInput(scene: Phaser.Scene, options: NameInputOptions):
         scene,
         y: absoluteY,
         onKeyPress: (key: string) => {
-          if (currentValue.length < 20) {
+          if (currentValue.length < maxLength) {
             currentValue += key;
             onInput(currentValue);
             updateDisplay();
@@ -175,8 +177,8 @@ export function createNameInput(scene: Phaser.Scene, options: NameInputOptions):
       return;
     }
 
-    // Only accept alphanumeric and space, max 20 chars
-    if (event.key.length === 1 && currentValue.length < 20) {
+    // Only accept alphanumeric and space, up to maxLength chars
+    if (event.key.length === 1 && currentValue.length < maxLength) {
       const char = event.key;
       if (/[a-zA-Z0-9 ]/.test(char)) {
         currentValue += char;
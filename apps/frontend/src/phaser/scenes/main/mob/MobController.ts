@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
 import type { Mob, Position, TileMap } from '../../../../lib';
+import { isTileRevealed } from '../../../../lib';
 
 export class MobController {
   private mobSprites: Map<string, Phaser.GameObjects.Sprite> = new Map();
@@ -9,6 +10,7 @@ export class MobController {
   private offsetX = 0;
   private offsetY = 0;
   private onMobMoved?: () => void;
+  private map?: TileMap;
 
   constructor(private readonly scene: Phaser.Scene) {}
 
@@ -28,6 +30,7 @@ export class MobController {
     this.tileSize = tileSize;
     this.offsetX = offsetX;
     this.offsetY = offsetY;
+    this.map = map;
 
     // Clear existing sprites
     this.mobSprites.forEach((sprite) => sprite.destroy());
@@ -86,9 +89,22 @@ export class MobController {
    * Set visibility of all mob sprites
    */
   setVisible(visible: boolean) {
+    if (visible && this.map) {
+      this.updateFogVisibility(this.map);
+      return;
+    }
     this.mobSprites.forEach((sprite) => sprite.setVisible(visible));
   }
 
+  /**
+   * Hide mobs standing in unexplored fog
+   */
+  updateFogVisibility(map: TileMap) {
+    map.mobs.forEach((mob) => {
+      this.mobSprites.get(mob.id)?.setVisible(isTileRevealed(map, mob.position));
+    });
+  }
+
   /**
    * Update mob sprite visibility based on completion status
    */
@@ -277,6 +293,9 @@ export class MobController {
     // Scale to 75% of tile size
     const targetSize = this.tileSize * 0.75;
     sprite.setDisplaySize(targetSize, targetSize);
+    if (this.map) {
+      sprite.setVisible(isTileRevealed(this.map, mob.position));
+    }
 
     this.mobSprites.set(mob.id, sprite);
   }
@@ -307,8 +326,8 @@ export class MobController {
         continue;
       }
 
-      // Prevent mobs from walking onto boss tile
-      if (tile.type === 'boss') {
+      // Prevent mobs from walking onto boss, key or chest tiles
+      if (tile.type === 'boss' || tile.type === 'key' || tile.type === 'chest') {
         continue;
       }
 
@@ -341,6 +360,10 @@ export class MobController {
     const x = this.offsetX + mob.position.x * this.tileSize + this.tileSize / 2;
     const y = this.offsetY + mob.position.y * this.tileSize + this.tileSize / 2;
 
+    if (this.map) {
+      sprite.setVisible(isTileRevealed(this.map, mob.position));
+    }
+
     // Smooth movement animation
     this.scene.tweens.add({
       targets: sprite,
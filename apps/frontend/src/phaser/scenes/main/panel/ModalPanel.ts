@@ -0,0 +1,78 @@
+import Phaser from 'phaser';
+
+export interface ModalPanelConfig {
+  // Color of the panel border
+  accentColor: number;
+}
+
+export interface ModalPanelControl {
+  container: Phaser.GameObjects.Container;
+  width: number;
+  height: number;
+  // Route digit, Backspace and Enter keys to a number entry until the panel is destroyed
+  listenForKeys(press: (key: string) => void, backspace: () => void, submit: () => void): void;
+  resize(width: number, height: number): void;
+  destroy(): void;
+}
+
+/**
+ * A centered panel over a dimmed overlay that keeps clicks from reaching the game behind it
+ */
+export function createModalPanel(scene: Phaser.Scene, config: ModalPanelConfig): ModalPanelControl {
+  const { width: sceneWidth, height: sceneHeight } = scene.scale;
+  let overlay = createOverlay(scene, sceneWidth, sceneHeight);
+  let keydownHandler: ((event: KeyboardEvent) => void) | undefined;
+
+  const width = Math.min(500, sceneWidth - 40);
+  const height = Math.min(600, sceneHeight - 40);
+  const container = scene.add.container(sceneWidth / 2, sceneHeight / 2);
+  container.setDepth(30);
+
+  const background = scene.add.rectangle(0, 0, width, height, 0x1b2d44, 0.98);
+  background.setStrokeStyle(3, config.accentColor, 0.8);
+  background.setInteractive(); // Prevent clicks from passing through
+  container.add(background);
+
+  const stopListening = () => {
+    if (keydownHandler) {
+      scene.input.keyboard?.off('keydown', keydownHandler);
+      keydownHandler = undefined;
+    }
+  };
+
+  return {
+    container,
+    width,
+    height,
+    listenForKeys(press, backspace, submit) {
+      stopListening();
+      keydownHandler = (event: KeyboardEvent) => {
+        if (event.key === 'Enter') {
+          submit();
+        } else if (event.key === 'Backspace') {
+          backspace();
+        } else {
+          press(event.key);
+        }
+      };
+      scene.input.keyboard?.on('keydown', keydownHandler);
+    },
+    resize(newWidth, newHeight) {
+      overlay.destroy();
+      overlay = createOverlay(scene, newWidth, newHeight);
+      container.setPosition(newWidth / 2, newHeight / 2);
+    },
+    destroy() {
+      stopListening();
+      container.destroy(true);
+      overlay.destroy();
+    },
+  };
+}
+
+function createOverlay(scene: Phaser.Scene, width: number, height: number) {
+  const overlay = scene.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7);
+  overlay.setDepth(25);
+  overlay.setInteractive(); // Block clicks to game behind overlay
+  return overlay;
+}
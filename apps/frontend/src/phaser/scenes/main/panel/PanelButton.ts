@@ -0,0 +1,40 @@
+import Phaser from 'phaser';
+
+export interface PanelButtonConfig {
+  x?: number;
+  y: number;
+  width: number;
+  label: string;
+  color: number;
+  onClick: () => void;
+}
+
+/**
+ * A flat button inside a modal panel that grows a little under the pointer
+ */
+export function createPanelButton(
+  scene: Phaser.Scene,
+  config: PanelButtonConfig
+): Phaser.GameObjects.Container {
+  const { x = 0, y, width, label, color, onClick } = config;
+  const container = scene.add.container(x, y);
+
+  const background = scene.add.rectangle(0, 0, width, 40, color, 0.9);
+  background.setStrokeStyle(2, 0xffffff, 0.6);
+
+  const text = scene.add.text(0, 0, label, {
+    fontFamily: 'Poppins, sans-serif',
+    fontSize: '16px',
+    color: '#ffffff',
+    fontStyle: 'bold',
+  });
+  text.setOrigin(0.5);
+  container.add([background, text]);
+
+  background.setInteractive({ useHandCursor: true });
+  background.on('pointerdown', onClick);
+  background.on('pointerover', () => background.setScale(1.05));
+  background.on('pointerout', () => background.setScale(1));
+
+  return container;
+}
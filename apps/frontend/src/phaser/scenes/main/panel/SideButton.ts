@@ -0,0 +1,63 @@
+import Phaser from 'phaser';
+
+export interface SideButtonConfig {
+  icon: string;
+  label: string;
+  color: number;
+  // Position in the column down the left edge, from the top
+  slot: number;
+  onClick: () => void;
+}
+
+/**
+ * A button in the column down the left edge of the board that opens a panel (shop, bank).
+ * Sized for the canvas's current width, so recreate it when the game resizes.
+ */
+export function createSideButton(
+  scene: Phaser.Scene,
+  config: SideButtonConfig
+): Phaser.GameObjects.Container {
+  const { icon, label, color, slot, onClick } = config;
+  const canvas = scene.game.canvas;
+  const parent = canvas?.parentElement;
+  const actualWidth = parent?.clientWidth ?? scene.scale.width;
+  const isMobile = actualWidth < 500;
+
+  // Scale button based on screen size
+  const buttonWidth = isMobile ? 50 : 70;
+  const buttonHeight = isMobile ? 70 : 100;
+  const iconSize = isMobile ? '24px' : '36px';
+  const labelSize = isMobile ? '10px' : '14px';
+  const iconY = isMobile ? -8 : -12;
+  const labelY = isMobile ? 16 : 24;
+
+  const buttonX = 10;
+  const buttonY = isMobile ? 80 + slot * 80 : 100 + slot * 110;
+
+  const container = scene.add.container(buttonX, buttonY);
+  container.setDepth(15);
+
+  const background = scene.add.rectangle(0, 0, buttonWidth, buttonHeight, color, 0.9);
+  background.setStrokeStyle(isMobile ? 2 : 3, 0xffffff, 0.6);
+  background.setOrigin(0, 0.5);
+
+  const iconText = scene.add.text(buttonWidth / 2, iconY, icon, { fontSize: iconSize });
+  iconText.setOrigin(0.5);
+
+  const labelText = scene.add.text(buttonWidth / 2, labelY, label, {
+    fontFamily: 'Poppins, sans-serif',
+    fontSize: labelSize,
+    color: '#ffffff',
+    fontStyle: 'bold',
+  });
+  labelText.setOrigin(0.5);
+
+  container.add([background, iconText, labelText]);
+
+  background.setInteractive({ useHandCursor: true });
+  background.on('pointerdown', onClick);
+  background.on('pointerover', () => background.setScale(1.05));
+  background.on('pointerout', () => background.setScale(1));
+
+  return container;
+}
@@ -0,0 +1,3 @@
+export * from './ModalPanel';
+export * from './PanelButton';
+export * from './SideButton';
@@ -1,4 +1,5 @@
 import type { Direction, Position, TileMap } from '../../../../lib';
+import { revealAround, tryUnlockDoor } from '../../../../lib';
 import type { BoardController } from '../board/BoardController';
 import type { GameStateManager } from '../state/GameStateManager';
 
@@ -30,6 +31,7 @@ export class PlayerMovementHandler {
     }
 
     session.player.currentPosition = next;
+    revealAround(session.currentMap, next);
     this.stateManager.updateLastPlayed();
     this.board.refreshTiles(session.currentMap, next);
     this.board.updatePlayerMarker(next);
@@ -66,6 +68,11 @@ export class PlayerMovementHandler {
     }
 
     const tile = map.tiles[target.y][target.x];
+    if (tile.type === 'door') {
+      // Walking into a door opens it when the matching key is on the key ring
+      return tryUnlockDoor(map, target) ? target : null;
+    }
+
     if (!tile.isAccessible) {
       return null;
     }
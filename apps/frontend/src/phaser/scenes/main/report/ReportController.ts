@@ -0,0 +1,311 @@
+import Phaser from 'phaser';
+import type { FactSummary, ProgressReport } from '../../../../lib';
+import { TIMES_TABLE_SIZE, progressReportToCsv } from '../../../../lib';
+import { OPERATION_LABELS } from '../constants';
+import { downloadFile } from '../download';
+
+interface ReportCallbacks {
+  onBack(): void;
+}
+
+// Days of play time shown as bars; the CSV and JSON exports keep every day
+const RECENT_DAYS = 14;
+
+const BUTTON_STYLE =
+  'padding: 12px 18px; font-size: 16px; border-radius: 14px; border: none; cursor: pointer;';
+
+export class ReportController {
+  private overlay?: Phaser.GameObjects.DOMElement;
+  private active = false;
+
+  constructor(private readonly scene: Phaser.Scene) {}
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  show(report: ProgressReport, callbacks: ReportCallbacks) {
+    this.hide();
+    this.active = true;
+
+    const container = document.createElement('div');
+    container.setAttribute(
+      'style',
+      'width: min(720px, 94vw); max-height: 90vh; overflow-y: auto; background: rgba(3, 15, 32, 0.97);' +
+        'color: #ffffff; padding: 28px; border-radius: 20px; box-shadow: 0 18px 40px rgba(0,0,0,0.45);' +
+        'font-family: Poppins, sans-serif; box-sizing: border-box;',
+    );
+
+    const heading = document.createElement('div');
+    heading.textContent = `📊 Progress Report — ${report.playerName}`;
+    heading.style.fontSize = '26px';
+    heading.style.textAlign = 'center';
+    heading.style.marginBottom = '6px';
+    container.appendChild(heading);
+
+    const totalAttempts = report.operations.reduce((sum, entry) => sum + entry.attempts, 0);
+    const totalCorrect = report.operations.reduce((sum, entry) => sum + entry.correct, 0);
+    const totalSeconds = report.days.reduce((sum, day) => sum + day.secondsPlayed, 0);
+    const summary = document.createElement('div');
+    summary.textContent =
+      `${totalAttempts} problems tried · ${formatPercent(totalCorrect, totalAttempts)} correct · ` +
+      `${formatMinutes(totalSeconds)} played`;
+    summary.style.textAlign = 'center';
+    summary.style.color = '#adb5bd';
+    summary.style.marginBottom = '18px';
+    container.appendChild(summary);
+
+    if (totalAttempts === 0) {
+      const empty = document.createElement('div');
+      empty.textContent = 'No problems answered yet — play a map and check back!';
+      empty.style.textAlign = 'center';
+      empty.style.margin = '24px 0';
+      container.appendChild(empty);
+    } else {
+      container.appendChild(this.createOperationTable(report));
+      container.appendChild(this.createTimesTable(report));
+      container.appendChild(this.createPlayTime(report));
+      container.appendChild(this.createFactList('🐢 Slowest facts', report.slowestFacts, 'time'));
+      container.appendChild(this.createFactList('🎯 Most missed facts', report.mostMissedFacts, 'accuracy'));
+    }
+
+    const buttonRow = document.createElement('div');
+    buttonRow.style.display = 'flex';
+    buttonRow.style.flexWrap = 'wrap';
+    buttonRow.style.gap = '12px';
+    buttonRow.style.justifyContent = 'center';
+    buttonRow.style.marginTop = '20px';
+
+    const fileName = `math-cash-report-${report.playerName.replace(/\W+/g, '-').toLowerCase()}`;
+
+    const csvBtn = document.createElement('button');
+    csvBtn.textContent = 'Download CSV';
+    csvBtn.setAttribute('style', `${BUTTON_STYLE} background: #72efdd; color: #031120;`);
+    csvBtn.addEventListener('click', () => {
+      downloadFile(`${fileName}.csv`, progressReportToCsv(report), 'text/csv');
+    });
+
+    const jsonBtn = document.createElement('button');
+    jsonBtn.textContent = 'Download JSON';
+    jsonBtn.setAttribute('style', `${BUTTON_STYLE} background: #ffd166; color: #031120;`);
+    jsonBtn.addEventListener('click', () => {
+      downloadFile(`${fileName}.json`, JSON.stringify(report, null, 2), 'application/json');
+    });
+
+    const backBtn = document.createElement('button');
+    backBtn.textContent = 'Back';
+    backBtn.setAttribute('style', `${BUTTON_STYLE} background: #e9ecef; color: #1d3557;`);
+    backBtn.addEventListener('click', () => {
+      this.hide();
+      callbacks.onBack();
+    });
+
+    buttonRow.appendChild(csvBtn);
+    buttonRow.appendChild(jsonBtn);
+    buttonRow.appendChild(backBtn);
+    container.appendChild(buttonRow);
+
+    const dom = this.scene.add.dom(this.scene.scale.width / 2, this.scene.scale.height / 2, container);
+    dom.setOrigin(0.5, 0.5);
+    dom.setDepth(25);
+    this.overlay = dom;
+  }
+
+  hide() {
+    if (this.overlay) {
+      this.overlay.destroy();
+      this.overlay = undefined;
+    }
+    this.active = false;
+  }
+
+  handleResize(width: number, height: number) {
+    if (!this.overlay) {
+      return;
+    }
+
+    this.overlay.setPosition(width / 2, height / 2);
+  }
+
+  private createOperationTable(report: ProgressReport): HTMLElement {
+    const section = createSection('Accuracy by operation');
+    const table = document.createElement('table');
+    table.style.width = '100%';
+    table.style.borderCollapse = 'collapse';
+    table.style.fontSize = '14px';
+
+    const header = table.insertRow();
+    for (const label of ['Operation', 'Tries', 'Correct', 'Avg time']) {
+      const cell = document.createElement('th');
+      cell.textContent = label;
+      cell.style.textAlign = label === 'Operation' ? 'left' : 'right';
+      cell.style.padding = '4px 6px';
+      cell.style.color = '#adb5bd';
+      header.appendChild(cell);
+    }
+
+    for (const entry of report.operations) {
+      const row = table.insertRow();
+      const values = [
+        OPERATION_LABELS[entry.operation],
+        `${entry.attempts}`,
+        formatPercent(entry.correct, entry.attempts),
+        `${entry.averageTime.toFixed(1)}s`,
+      ];
+      values.forEach((value, index) => {
+        const cell = row.insertCell();
+        cell.textContent = value;
+        cell.style.textAlign = index === 0 ? 'left' : 'right';
+        cell.style.padding = '4px 6px';
+        cell.style.borderTop = '1px solid rgba(255,255,255,0.08)';
+      });
+      row.cells[2].style.color = getAccuracyColor(entry.accuracy);
+    }
+
+    section.appendChild(table);
+    return section;
+  }
+
+  private createTimesTable(report: ProgressReport): HTMLElement {
+    const section = createSection('Times-table mastery');
+    const grid = document.createElement('div');
+    grid.style.display = 'grid';
+    grid.style.gridTemplateColumns = `repeat(${TIMES_TABLE_SIZE + 1}, 1fr)`;
+    grid.style.gap = '2px';
+    grid.style.fontSize = '12px';
+    grid.style.textAlign = 'center';
+
+    const addCell = (text: string, background: string, title?: string) => {
+      const cell = document.createElement('div');
+      cell.textContent = text;
+      cell.style.background = background;
+      cell.style.padding = '4px 0';
+      cell.style.borderRadius = '4px';
+      if (title) {
+        cell.title = title;
+      }
+      grid.appendChild(cell);
+    };
+
+    addCell('×', 'transparent');
+    for (let factor = 1; factor <= TIMES_TABLE_SIZE; factor++) {
+      addCell(`${factor}`, 'transparent');
+    }
+
+    for (const row of report.timesTable) {
+      addCell(`${row[0].factors[0]}`, 'transparent');
+      for (const cell of row) {
+        const [a, b] = cell.factors;
+        const title =
+          cell.attempts > 0
+            ? `${a} × ${b}: ${cell.correct}/${cell.attempts} correct, ${cell.averageTime.toFixed(1)}s`
+            : `${a} × ${b}: not tried yet`;
+        const background = cell.attempts > 0 ? getAccuracyColor(cell.accuracy) : 'rgba(255,255,255,0.08)';
+        addCell(`${a * b}`, background, title);
+      }
+    }
+
+    section.appendChild(grid);
+
+    const legend = document.createElement('div');
+    legend.textContent = 'Green: 80%+ correct · Yellow: 50–79% · Red: under 50% · Grey: not tried';
+    legend.style.fontSize = '12px';
+    legend.style.color = '#adb5bd';
+    legend.style.marginTop = '6px';
+    section.appendChild(legend);
+    return section;
+  }
+
+  private createPlayTime(report: ProgressReport): HTMLElement {
+    const section = createSection(`Time played (last ${RECENT_DAYS} days)`);
+    const days = report.days.slice(-RECENT_DAYS);
+    const maxSeconds = Math.max(1, ...days.map((day) => day.secondsPlayed));
+
+    for (const day of days) {
+      const row = document.createElement('div');
+      row.style.display = 'flex';
+      row.style.alignItems = 'center';
+      row.style.gap = '8px';
+      row.style.fontSize = '13px';
+      row.style.marginBottom = '3px';
+
+      const label = document.createElement('span');
+      label.textContent = day.day;
+      label.style.width = '90px';
+      label.style.color = '#adb5bd';
+
+      const bar = document.createElement('span');
+      bar.style.height = '10px';
+      bar.style.borderRadius = '5px';
+      bar.style.background = '#4cc9f0';
+      bar.style.width = `${(day.secondsPlayed / maxSeconds) * 60}%`;
+
+      const value = document.createElement('span');
+      value.textContent = `${formatMinutes(day.secondsPlayed)} · ${day.attempts} tries`;
+
+      row.appendChild(label);
+      row.appendChild(bar);
+      row.appendChild(value);
+      section.appendChild(row);
+    }
+
+    return section;
+  }
+
+  private createFactList(title: string, facts: FactSummary[], detail: 'time' | 'accuracy'): HTMLElement {
+    const section = createSection(title);
+    if (facts.length === 0) {
+      const none = document.createElement('div');
+      none.textContent = 'Nothing to show yet.';
+      none.style.fontSize = '13px';
+      none.style.color = '#adb5bd';
+      section.appendChild(none);
+      return section;
+    }
+
+    const list = document.createElement('ol');
+    list.style.margin = '0';
+    list.style.paddingLeft = '22px';
+    list.style.fontSize = '14px';
+    for (const fact of facts) {
+      const item = document.createElement('li');
+      item.textContent =
+        detail === 'time'
+          ? `${fact.fact} — ${fact.averageTime.toFixed(1)}s average`
+          : `${fact.fact} — ${fact.correct}/${fact.attempts} correct`;
+      list.appendChild(item);
+    }
+
+    section.appendChild(list);
+    return section;
+  }
+}
+
+function createSection(title: string): HTMLElement {
+  const section = document.createElement('div');
+  section.style.marginBottom = '18px';
+
+  const heading = document.createElement('div');
+  heading.textContent = title;
+  heading.style.fontSize = '18px';
+  heading.style.marginBottom = '8px';
+  heading.style.color = '#72efdd';
+  section.appendChild(heading);
+  return section;
+}
+
+function getAccuracyColor(accuracy: number): string {
+  if (accuracy >= 0.8) {
+    return '#2a9d8f';
+  }
+  return accuracy >= 0.5 ? '#e9c46a' : '#e76f51';
+}
+
+function formatPercent(correct: number, attempts: number): string {
+  return attempts > 0 ? `${Math.round((correct / attempts) * 100)}%` : '—';
+}
+
+function formatMinutes(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 1 && seconds > 0 ? '<1 min' : `${minutes} min`;
+}
@@ -0,0 +1,79 @@
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import type { ChallengeAttempt } from '../../../../lib';
+import { createAttempt } from '../../../../lib/test-fixtures';
+import { STORAGE_KEY } from '../constants';
+import {
+  MAX_ATTEMPT_LOG_ENTRIES,
+  appendAttempts,
+  clearAttemptLog,
+  flushAttemptLogs,
+  loadAttemptLog,
+  replaceAttemptLog,
+} from './attemptLog';
+import { saveStore } from './writeQueue';
+
+// Module state outlives each test, so every test logs for its own player
+let players = 0;
+const nextPlayer = () => `player-${++players}`;
+
+const answersIn = (log: ChallengeAttempt[]) => log.map((attempt) => attempt.submittedAnswer);
+
+describe('attempt log', () => {
+  // Leave no batching timers running once the tests are done
+  afterAll(async () => {
+    await flushAttemptLogs();
+    await saveStore.flush();
+  });
+
+  it('applies updates queued back to back in order', async () => {
+    const player = nextPlayer();
+    void appendAttempts(player, [createAttempt(player, 1)]);
+    void appendAttempts(player, [createAttempt(player, 2)]);
+    void replaceAttemptLog(player, [createAttempt(player, 10)]);
+    void appendAttempts(player, [createAttempt(player, 11)]);
+    expect(answersIn(await loadAttemptLog(player))).toEqual([10, 11]);
+
+    void clearAttemptLog(player);
+    void appendAttempts(player, [createAttempt(player, 20)]);
+    expect(answersIn(await loadAttemptLog(player))).toEqual([20]);
+  });
+
+  it('keeps each player to their own log', async () => {
+    const first = nextPlayer();
+    const second = nextPlayer();
+    void appendAttempts(first, [createAttempt(first, 1)]);
+    void appendAttempts(second, [createAttempt(second, 2)]);
+    void clearAttemptLog(second);
+    expect(answersIn(await loadAttemptLog(first))).toEqual([1]);
+    expect(await loadAttemptLog(second)).toEqual([]);
+  });
+
+  it('drops the oldest attempts beyond the limit', async () => {
+    const player = nextPlayer();
+    const attempts = Array.from({ length: MAX_ATTEMPT_LOG_ENTRIES + 5 }, (_, index) =>
+      createAttempt(player, index)
+    );
+    const log = await appendAttempts(player, attempts);
+    expect(log).toHaveLength(MAX_ATTEMPT_LOG_ENTRIES);
+    expect(log[0].submittedAnswer).toBe(5);
+  });
+
+  it('writes batched attempts to storage when flushed', async () => {
+    const player = nextPlayer();
+    await appendAttempts(player, [createAttempt(player, 1), createAttempt(player, 2)]);
+    await flushAttemptLogs();
+    const stored = JSON.parse((await saveStore.get(`${STORAGE_KEY}:attempts:${player}`)) ?? '[]');
+    expect(stored.map((attempt: ChallengeAttempt) => attempt.submittedAnswer)).toEqual([1, 2]);
+  });
+
+  it('backs up a log that cannot be read and starts a new one', async () => {
+    const player = nextPlayer();
+    const key = `${STORAGE_KEY}:attempts:${player}`;
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    saveStore.set(key, 'not json');
+    expect(answersIn(await appendAttempts(player, [createAttempt(player, 1)]))).toEqual([1]);
+    expect(await saveStore.get(`${key}:backup`)).toBe('not json');
+    expect(logError).toHaveBeenCalled();
+    logError.mockRestore();
+  });
+});
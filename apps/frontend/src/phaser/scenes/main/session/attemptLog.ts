@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import type { ChallengeAttempt } from '../../../../lib';
+import { StoredChallengeAttempt } from '../../../../lib';
+import { STORAGE_KEY } from '../constants';
+import { saveStore } from './writeQueue';
+
+// Keep only the most recent attempts so the log cannot grow without bound
+export const MAX_ATTEMPT_LOG_ENTRIES = 2000;
+
+// A player's log is stored at most this often while answers come in
+const LOG_WRITE_DELAY_MS = 30000;
+
+// Logs with attempts not yet handed to storage, by player
+const unsaved = new Map<string, ChallengeAttempt[]>();
+let writeTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Each player's reads and updates run in order, so an update never works from a log that a
+// queued one is about to change. Players are dropped once nothing is left running for them.
+const tasks = new Map<string, Promise<ChallengeAttempt[]>>();
+
+function getAttemptLogKey(playerId: string): string {
+  return `${STORAGE_KEY}:attempts:${playerId}`;
+}
+
+/**
+ * A player's log once the updates queued before this have run
+ */
+export function loadAttemptLog(playerId: string): Promise<ChallengeAttempt[]> {
+  return updateAttemptLog(playerId, (log) => log);
+}
+
+/**
+ * Append attempts to a player's log, dropping the oldest beyond the limit.
+ * Resolves to the log; it is written in a batch with any other attempts that follow soon after.
+ */
+export function appendAttempts(
+  playerId: string,
+  attempts: ChallengeAttempt[]
+): Promise<ChallengeAttempt[]> {
+  return updateAttemptLog(playerId, (log) => {
+    log.push(...attempts);
+    return markUnsaved(playerId, log);
+  });
+}
+
+/**
+ * Replace a player's whole log, e.g. with the history that came with a save file
+ */
+export function replaceAttemptLog(
+  playerId: string,
+  attempts: ChallengeAttempt[]
+): Promise<ChallengeAttempt[]> {
+  return enqueue(playerId, async (previous) => {
+    await previous?.catch(() => undefined);
+    return markUnsaved(playerId, [...attempts]);
+  });
+}
+
+export function clearAttemptLog(playerId: string): Promise<ChallengeAttempt[]> {
+  return enqueue(playerId, async (previous) => {
+    await previous?.catch(() => undefined);
+    unsaved.delete(playerId);
+    saveStore.remove(getAttemptLogKey(playerId));
+    return [];
+  });
+}
+
+/**
+ * Hand batched attempts to storage now, e.g. before the page is hidden
+ */
+export async function flushAttemptLogs(): Promise<void> {
+  await Promise.allSettled(tasks.values());
+  clearTimeout(writeTimer);
+  writeTimer = undefined;
+  for (const [playerId, log] of unsaved) {
+    // Serialized now: the log keeps changing in place after this
+    saveStore.set(getAttemptLogKey(playerId), JSON.stringify(log));
+  }
+  unsaved.clear();
+}
+
+/**
+ * Run an update after the ones already queued for the player. It starts from the log the last
+ * one left, or from storage again if that one failed, so a failure never stands in for the log.
+ */
+function updateAttemptLog(
+  playerId: string,
+  update: (log: ChallengeAttempt[]) => ChallengeAttempt[]
+): Promise<ChallengeAttempt[]> {
+  return enqueue(playerId, (previous) =>
+    (previous?.catch(() => readAttemptLog(playerId)) ?? readAttemptLog(playerId)).then(update)
+  );
+}
+
+function enqueue(
+  playerId: string,
+  run: (previous?: Promise<ChallengeAttempt[]>) => Promise<ChallengeAttempt[]>
+): Promise<ChallengeAttempt[]> {
+  const task = run(tasks.get(playerId));
+  tasks.set(playerId, task);
+  const settle = () => {
+    if (tasks.get(playerId) === task) {
+      tasks.delete(playerId);
+    }
+  };
+  task.then(settle, settle);
+  return task;
+}
+
+/**
+ * Read a player's log, newest unsaved attempts included. A stored log that cannot be parsed is
+ * kept aside under a backup key and the player starts a new one; a failed read rejects.
+ */
+async function readAttemptLog(playerId: string): Promise<ChallengeAttempt[]> {
+  const pending = unsaved.get(playerId);
+  if (pending) {
+    return pending;
+  }
+
+  const key = getAttemptLogKey(playerId);
+  const raw = await saveStore.get(key);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return z.array(StoredChallengeAttempt).parse(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to load attempt log; keeping a backup copy', error);
+    saveStore.set(`${key}:backup`, raw);
+    return [];
+  }
+}
+
+function markUnsaved(playerId: string, log: ChallengeAttempt[]): ChallengeAttempt[] {
+  if (log.length > MAX_ATTEMPT_LOG_ENTRIES) {
+    log.splice(0, log.length - MAX_ATTEMPT_LOG_ENTRIES);
+  }
+  unsaved.set(playerId, log);
+  writeTimer ??= setTimeout(() => void flushAttemptLogs(), LOG_WRITE_DELAY_MS);
+  return log;
+}
@@ -0,0 +1,138 @@
+import { STORAGE_KEY } from '../constants';
+
+/**
+ * Key-value storage for saves. Values are JSON strings; a missing key reads as null.
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export class LocalStorageBackend implements StorageBackend {
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Keeps everything in memory; used when the browser offers no persistent storage
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private readonly items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+const OBJECT_STORE = 'saves';
+
+/**
+ * Stores saves in IndexedDB, which has far more room than localStorage. When the database is
+ * first created, saves already in localStorage under `migratePrefix` are moved into it.
+ * Falls back to another backend if the database cannot be opened (e.g. some private modes).
+ */
+export class IndexedDbBackend implements StorageBackend {
+  private database?: Promise<IDBDatabase | null>;
+
+  constructor(
+    private readonly name: string,
+    private readonly fallback: StorageBackend,
+    private readonly migratePrefix?: string
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const database = await this.open();
+    if (!database) {
+      return this.fallback.getItem(key);
+    }
+    const value = await this.request<unknown>(database, 'readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      return this.fallback.setItem(key, value);
+    }
+    await this.request(database, 'readwrite', (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      return this.fallback.removeItem(key);
+    }
+    await this.request(database, 'readwrite', (store) => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.name, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(OBJECT_STORE);
+        this.migrateLocalStorage(store, request.transaction!);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      console.error('IndexedDB unavailable, falling back', error);
+      return null;
+    });
+    return this.database;
+  }
+
+  private migrateLocalStorage(store: IDBObjectStore, transaction: IDBTransaction) {
+    if (!this.migratePrefix || typeof localStorage === 'undefined') {
+      return;
+    }
+
+    const keys = Object.keys(localStorage).filter((key) => key.startsWith(this.migratePrefix!));
+    for (const key of keys) {
+      store.put(localStorage.getItem(key), key);
+    }
+    // Only clear localStorage once the copies are safely committed
+    transaction.oncomplete = () => keys.forEach((key) => localStorage.removeItem(key));
+  }
+
+  private request<T>(
+    database: IDBDatabase,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = run(database.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * The best storage this browser offers: IndexedDB, then localStorage, then memory
+ */
+export function createStorageBackend(): StorageBackend {
+  const fallback =
+    typeof localStorage !== 'undefined' ? new LocalStorageBackend() : new MemoryStorageBackend();
+  if (typeof indexedDB === 'undefined') {
+    return fallback;
+  }
+  return new IndexedDbBackend(STORAGE_KEY, fallback, STORAGE_KEY);
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { createAttempt, createSession } from '../../../../lib/test-fixtures';
+import { createSaveFile, readSaveFile } from './saveFile';
+
+describe('save files', () => {
+  it('reads back the session and attempts without needing crypto.subtle', () => {
+    const session = createSession();
+    const attempts = [createAttempt(session.player.id, 1)];
+    const saved = readSaveFile(createSaveFile(session, attempts));
+    expect(saved.session).toEqual(session);
+    expect(saved.attempts).toEqual(attempts);
+  });
+
+  it('turns away a file whose payload was edited', () => {
+    const file = JSON.parse(createSaveFile(createSession(), []));
+    file.payload = file.payload.replace('"currency":12', '"currency":9999');
+    expect(() => readSaveFile(JSON.stringify(file))).toThrow('The save file is damaged or was edited');
+  });
+
+  it('leaves the family sync token out of the file', () => {
+    const file = createSaveFile(createSession(), []);
+    expect(JSON.parse(JSON.parse(file).payload)).not.toHaveProperty('syncToken');
+  });
+});
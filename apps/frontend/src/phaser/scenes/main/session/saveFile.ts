@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import type { ChallengeAttempt, GameSession } from '../../../../lib';
+import { SAVE_VERSION, StoredChallengeAttempt, parseSave } from '../../../../lib';
+
+// Marks a file as one of ours before anything else is trusted
+const SAVE_FILE_FORMAT = 'math-cash-save-file';
+
+// The payload stays a string inside the file so the checksum covers exactly the bytes written
+const SaveFile = z.object({
+  format: z.literal(SAVE_FILE_FORMAT),
+  exportedAt: z.string(),
+  checksum: z.string(),
+  payload: z.string(),
+});
+
+// Files written before attempt histories were exported carry none
+const SaveFileExtras = z.object({
+  attempts: z.array(StoredChallengeAttempt).default([]),
+});
+
+export interface ImportedSave {
+  session: GameSession;
+  attempts: ChallengeAttempt[];
+}
+
+/**
+ * Bundle a player's session and attempt history into a checksummed file for moving between
+ * devices. The family sync token stays out of it, so a shared file gives no access to the server.
+ */
+export function createSaveFile(session: GameSession, attempts: ChallengeAttempt[]): string {
+  const payload = JSON.stringify({ version: SAVE_VERSION, session, attempts });
+  const file: z.infer<typeof SaveFile> = {
+    format: SAVE_FILE_FORMAT,
+    exportedAt: new Date().toISOString(),
+    checksum: crc32(payload),
+    payload,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Check a save file's checksum, then validate its session the same way stored saves are loaded.
+ * Throws with a reason a parent can act on when the file is not usable.
+ */
+export function readSaveFile(text: string): ImportedSave {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a Math Cash save file');
+  }
+
+  const file = SaveFile.safeParse(json);
+  if (!file.success) {
+    throw new Error('This is not a Math Cash save file');
+  }
+
+  if (crc32(file.data.payload) !== file.data.checksum) {
+    throw new Error('The save file is damaged or was edited');
+  }
+
+  const session = parseSave(file.data.payload);
+  const extras = SaveFileExtras.safeParse(JSON.parse(file.data.payload));
+  if (!extras.success) {
+    throw new Error('The save file has an unreadable attempt history');
+  }
+
+  return { session, ...extras.data };
+}
+
+// CRC-32 lookup table, one entry per byte value
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * CRC-32 of the text's UTF-8 bytes as 8 hex digits. It catches damage and casual edits, and
+ * unlike crypto.subtle it works on plain http pages such as a game served over the home network.
+ */
+function crc32(text: string): string {
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(text)) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createSession } from '../../../../lib/test-fixtures';
+import { STORAGE_KEY } from '../constants';
+import {
+  deleteProfile,
+  flushStorage,
+  getDamage,
+  initializeStorage,
+  loadProfiles,
+  loadSession,
+  saveSession,
+} from './storage';
+import { saveStore } from './writeQueue';
+
+describe('profile storage', () => {
+  beforeAll(() => initializeStorage());
+
+  // Leave no write timers running once the tests are done
+  afterAll(() => flushStorage());
+
+  it('removes every copy of a deleted profile, the damaged save included', async () => {
+    const session = createSession();
+    const id = session.player.id;
+    const keys = ['session', 'backup', 'corrupt'].map((kind) => `${STORAGE_KEY}:${kind}:${id}`);
+    saveSession(session);
+    expect(await loadSession(id)).toEqual(session);
+
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    saveStore.set(keys[0], 'not json');
+    expect(await loadSession(id)).toBeNull();
+    expect(getDamage(id)).toEqual({ hasBackup: true });
+    logError.mockRestore();
+    for (const key of keys) {
+      expect(await saveStore.get(key)).not.toBeNull();
+    }
+
+    deleteProfile(id);
+    await flushStorage();
+    for (const key of keys) {
+      expect(await saveStore.get(key)).toBeNull();
+    }
+    expect(getDamage(id)).toBeNull();
+    expect(loadProfiles()).toEqual([]);
+  });
+});
+
+describe('moving a single-player save', () => {
+  it('lists a save that cannot be read as a damaged player', async () => {
+    // A fresh storage module and store, so the profile list is read again
+    vi.resetModules();
+    const storage = await import('./storage');
+    const { saveStore: store } = await import('./writeQueue');
+    store.set(STORAGE_KEY, 'not json');
+
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await storage.initializeStorage();
+    logError.mockRestore();
+
+    const [profile] = storage.loadProfiles();
+    expect(profile.name).toBe('Saved game');
+    expect(storage.getDamage(profile.id)).toEqual({ hasBackup: false });
+    expect(await store.get(`${STORAGE_KEY}:session:${profile.id}`)).toBe('not json');
+    expect(await store.get(STORAGE_KEY)).toBeNull();
+    await storage.flushStorage();
+  });
+});
@@ -1,29 +1,235 @@
+import { z } from 'zod';
 import type { GameSession } from '../../../../lib';
+import { parseSave, PlayerProfile, serializeSave, toPlayerProfile } from '../../../../lib';
 import { STORAGE_KEY } from '../constants';
+import { saveStore } from './writeQueue';
 
-export function loadSession(): GameSession | null {
-  const raw = localStorage.getItem(STORAGE_KEY);
+// Saved players plus which one played last; sessions live under their own keys
+const ProfileIndex = z.object({
+  activeProfileId: z.string().nullable(),
+  profiles: z.array(PlayerProfile.extend({ lastPlayedAt: z.coerce.date() })),
+});
+type ProfileIndex = z.infer<typeof ProfileIndex>;
+
+const PROFILE_INDEX_KEY = `${STORAGE_KEY}:profiles`;
+// Profile for a single-player save that could not be read when it was moved
+const LEGACY_PROFILE_ID = 'legacy';
+
+// Loaded once by initializeStorage, then kept in memory so menus can list players synchronously
+let index: ProfileIndex = { activeProfileId: null, profiles: [] };
+// Profiles whose save failed to load this run, and whether each has a backup to restore
+const damaged = new Map<string, boolean>();
+
+function getSessionKey(profileId: string): string {
+  return `${STORAGE_KEY}:session:${profileId}`;
+}
+
+// Each profile keeps one backup: its save as it was the last time it loaded
+function getBackupKey(profileId: string): string {
+  return `${STORAGE_KEY}:backup:${profileId}`;
+}
+
+// The last save of a profile that failed to load, kept even after the backup replaces it
+function getCorruptKey(profileId: string): string {
+  return `${STORAGE_KEY}:corrupt:${profileId}`;
+}
+
+/**
+ * Read the profile list from storage; call before anything else here
+ */
+export async function initializeStorage(): Promise<void> {
+  index = await loadProfileIndex();
+}
+
+/**
+ * Saved players, most recently played first
+ */
+export function loadProfiles(): PlayerProfile[] {
+  return [...index.profiles].sort((a, b) => b.lastPlayedAt.getTime() - a.lastPlayedAt.getTime());
+}
+
+/**
+ * Load a profile's session, defaulting to the player who played last.
+ * A save that loads is copied to the profile's backup. One that cannot be read stays where it
+ * is, is copied aside, and the profile is marked damaged, so the player can restore the backup
+ * or delete it.
+ */
+export async function loadSession(profileId?: string): Promise<GameSession | null> {
+  const id = profileId ?? index.activeProfileId;
+  if (!id) {
+    return null;
+  }
+
+  const raw = await saveStore.get(getSessionKey(id));
   if (!raw) {
     return null;
   }
 
+  const session = parseSession(raw);
+  if (session) {
+    damaged.delete(id);
+    saveStore.set(getBackupKey(id), raw);
+  } else {
+    saveStore.set(getCorruptKey(id), raw);
+    damaged.set(id, (await saveStore.get(getBackupKey(id))) !== null);
+  }
+  return session;
+}
+
+/**
+ * Whether a profile's save failed to load, and if so whether it has a backup to restore
+ */
+export function getDamage(profileId: string): { hasBackup: boolean } | null {
+  const hasBackup = damaged.get(profileId);
+  return hasBackup === undefined ? null : { hasBackup };
+}
+
+/**
+ * Put a profile's backup back in place of its save; the damaged save stays under its own key.
+ * Resolves to the restored session, or null when there is no backup or it cannot be read either.
+ */
+export async function restoreBackup(profileId: string): Promise<GameSession | null> {
+  const raw = await saveStore.get(getBackupKey(profileId));
+  const session = raw ? parseSession(raw) : null;
+  if (!session) {
+    damaged.set(profileId, false);
+    return null;
+  }
+
+  damaged.delete(profileId);
+  saveSession(session, false);
+  return session;
+}
+
+/**
+ * A profile's save exactly as stored, for sending elsewhere without re-serializing it
+ */
+export function loadRawSession(profileId: string): Promise<string | null> {
+  return saveStore.get(getSessionKey(profileId));
+}
+
+/**
+ * Save a session under its player's profile and (unless told otherwise) make that player the
+ * active one. The write is queued, so the session is serialized once however often this is called.
+ */
+export function saveSession(session: GameSession, makeActive = true): void {
+  const profile = toPlayerProfile(session);
+  saveStore.set(getSessionKey(profile.id), () => serializeSave(session));
+  updateIndex({
+    activeProfileId: makeActive ? profile.id : index.activeProfileId,
+    profiles: [...index.profiles.filter((entry) => entry.id !== profile.id), profile],
+  });
+}
+
+export function setActiveProfile(profileId: string): void {
+  updateIndex({ ...index, activeProfileId: profileId });
+}
+
+/**
+ * Rename a profile in its save and in the list; the list only changes once the save has loaded
+ */
+export async function renameProfile(profileId: string, name: string): Promise<void> {
+  const session = await loadSession(profileId);
+  if (session) {
+    session.player.name = name;
+    saveStore.set(getSessionKey(profileId), serializeSave(session));
+  }
+
+  updateIndex({
+    ...index,
+    profiles: index.profiles.map((profile) =>
+      profile.id === profileId ? { ...profile, name } : profile
+    ),
+  });
+}
+
+export function deleteProfile(profileId: string): void {
+  saveStore.remove(getSessionKey(profileId));
+  saveStore.remove(getBackupKey(profileId));
+  saveStore.remove(getCorruptKey(profileId));
+  damaged.delete(profileId);
+  updateIndex({
+    activeProfileId: index.activeProfileId === profileId ? null : index.activeProfileId,
+    profiles: index.profiles.filter((profile) => profile.id !== profileId),
+  });
+}
+
+/**
+ * Write queued saves now, e.g. before the page is hidden
+ */
+export function flushStorage(): Promise<void> {
+  return saveStore.flush();
+}
+
+function updateIndex(next: ProfileIndex) {
+  index = next;
+  saveStore.set(PROFILE_INDEX_KEY, () => JSON.stringify(index));
+}
+
+async function loadProfileIndex(): Promise<ProfileIndex> {
+  const raw = await saveStore.get(PROFILE_INDEX_KEY);
+  if (!raw) {
+    return migrateLegacySave();
+  }
+
   try {
-    const parsed = JSON.parse(raw) as GameSession;
-    parsed.player.createdAt = new Date(parsed.player.createdAt);
-    parsed.player.lastPlayedAt = new Date(parsed.player.lastPlayedAt);
-    parsed.gameStartedAt = new Date(parsed.gameStartedAt);
-    return parsed;
+    return ProfileIndex.parse(JSON.parse(raw));
   } catch (error) {
-    console.error('Failed to load saved game', error);
-    return null;
+    console.error('Failed to load player profiles', error);
+    return { activeProfileId: null, profiles: [] };
   }
 }
 
-export function saveSession(session: GameSession | null): void {
-  if (!session) {
-    localStorage.removeItem(STORAGE_KEY);
-    return;
+/**
+ * Move a save from the single-player days, stored directly under STORAGE_KEY, into its own profile.
+ * A save that cannot be read is moved as it is and listed as a damaged player, so it stays in
+ * view until it is deleted.
+ */
+async function migrateLegacySave(): Promise<ProfileIndex> {
+  const raw = await saveStore.get(STORAGE_KEY);
+  if (!raw) {
+    return { activeProfileId: null, profiles: [] };
+  }
+
+  const legacy = parseSession(raw);
+  saveStore.remove(STORAGE_KEY);
+  if (!legacy) {
+    saveStore.set(getSessionKey(LEGACY_PROFILE_ID), raw);
+    saveStore.set(getCorruptKey(LEGACY_PROFILE_ID), raw);
+    damaged.set(LEGACY_PROFILE_ID, false);
+    const unreadable: ProfileIndex = {
+      activeProfileId: null,
+      profiles: [
+        {
+          id: LEGACY_PROFILE_ID,
+          name: 'Saved game',
+          difficulty: 'infant',
+          currency: 0,
+          lastPlayedAt: new Date(0),
+        },
+      ],
+    };
+    saveStore.set(PROFILE_INDEX_KEY, JSON.stringify(unreadable));
+    return unreadable;
   }
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  const migrated: ProfileIndex = {
+    activeProfileId: legacy.player.id,
+    profiles: [toPlayerProfile(legacy)],
+  };
+  saveStore.set(getSessionKey(legacy.player.id), serializeSave(legacy));
+  saveStore.set(PROFILE_INDEX_KEY, JSON.stringify(migrated));
+  return migrated;
+}
+
+/**
+ * Parse and validate a stored save, or null if it is corrupt or invalid
+ */
+function parseSession(raw: string): GameSession | null {
+  try {
+    return parseSave(raw);
+  } catch (error) {
+    console.error('Failed to load saved game', error);
+    return null;
+  }
 }
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChallengeAttempt } from '../../../../lib';
+import { createAttempt } from '../../../../lib/test-fixtures';
+import { STORAGE_KEY } from '../constants';
+import { SyncQueue } from './syncQueue';
+import { saveStore } from './writeQueue';
+
+const createAttempts = (playerId: string, count: number) =>
+  Array.from({ length: count }, (_, index) => createAttempt(playerId, index));
+
+interface SentRequest {
+  method: string;
+  path: string;
+  body?: { attempts: ChallengeAttempt[] };
+}
+
+describe('SyncQueue', () => {
+  let sent: SentRequest[];
+  let status: number;
+
+  beforeEach(() => {
+    // Pushes are started by hand; the queue's own timers never fire
+    vi.useFakeTimers();
+    vi.stubGlobal('window', { addEventListener: vi.fn() });
+    sent = [];
+    status = 200;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string, init: RequestInit) => {
+        sent.push({
+          method: init.method ?? 'GET',
+          path: url.replace(/^\/api/, ''),
+          body: init.body ? JSON.parse(init.body as string) : undefined,
+        });
+        if (status === 0) {
+          throw new TypeError('Failed to fetch');
+        }
+        return new Response(null, { status });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('sends queued changes in order and forgets them once delivered', async () => {
+    const queue = new SyncQueue();
+    queue.queueAttempts('player-1', createAttempts('player-1', 2));
+    queue.queueDelete('player-2');
+    await queue.push();
+
+    expect(sent.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      'POST /profiles/player-1/attempts',
+      'DELETE /profiles/player-2',
+    ]);
+    expect(queue.hasPendingChanges('player-1')).toBe(false);
+    expect(queue.hasPendingChanges('player-2')).toBe(false);
+  });
+
+  it('keeps changes while the server cannot be reached', async () => {
+    const queue = new SyncQueue();
+    status = 0;
+    queue.queueAttempts('player-1', createAttempts('player-1', 2));
+    await queue.push();
+    expect(queue.hasPendingChanges('player-1')).toBe(true);
+
+    status = 503;
+    await queue.push();
+    expect(queue.hasPendingChanges('player-1')).toBe(true);
+
+    status = 200;
+    await queue.push();
+    expect(queue.hasPendingChanges('player-1')).toBe(false);
+  });
+
+  it('never sends more attempts than the server takes in one request', async () => {
+    const queue = new SyncQueue();
+    status = 0;
+    queue.queueAttempts('player-1', createAttempts('player-1', 1500));
+    await queue.push();
+    queue.queueAttempts('player-1', createAttempts('player-1', 1500));
+    status = 200;
+    sent = [];
+    await queue.push();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].body?.attempts).toHaveLength(2000);
+    // The newest attempts are the ones kept
+    expect(sent[0].body?.attempts.at(-1)?.submittedAnswer).toBe(1499);
+  });
+
+  it('trims an oversized batch stored by an earlier version', async () => {
+    saveStore.set(
+      `${STORAGE_KEY}:sync-queue`,
+      JSON.stringify([
+        { kind: 'attempts', playerId: 'player-1', attempts: createAttempts('player-1', 2500) },
+      ])
+    );
+    const queue = new SyncQueue();
+    await queue.load();
+    await queue.push();
+
+    expect(sent[0].body?.attempts).toHaveLength(2000);
+    expect(queue.hasPendingChanges('player-1')).toBe(false);
+  });
+
+  it('only joins a family whose code the server accepts', () => {
+    const queue = new SyncQueue();
+    expect(() => queue.joinFamily('not a code')).toThrow('That is not a family code');
+    expect(queue.getToken()).toBe('');
+
+    queue.joinFamily('c'.repeat(32));
+    expect(queue.getToken()).toBe('c'.repeat(32));
+  });
+});
@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import type { ChallengeAttempt, GameSession } from '../../../../lib';
+import { PlayerProfile, StoredChallengeAttempt, parseSave } from '../../../../lib';
+import { STORAGE_KEY } from '../constants';
+import { loadRawSession } from './storage';
+import { saveStore } from './writeQueue';
+
+// The server takes at most this many attempts in one request, and keeps no more than that for a
+// player, so older attempts still waiting to be sent are dropped
+const MAX_PENDING_ATTEMPTS = 2000;
+
+// Changes waiting to reach the server. Sessions are read from local storage when sent,
+// so queueing one again just keeps a single entry.
+const SyncChange = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('session'), playerId: z.string() }),
+  z.object({
+    kind: z.literal('attempts'),
+    playerId: z.string(),
+    // Queues stored before the limit may hold more
+    attempts: z
+      .array(StoredChallengeAttempt)
+      .transform((attempts) => attempts.slice(-MAX_PENDING_ATTEMPTS)),
+  }),
+  z.object({ kind: z.literal('delete'), playerId: z.string() }),
+]);
+type SyncChange = z.infer<typeof SyncChange>;
+
+// What the server sends back, with dates as strings
+const ProfileList = z.object({
+  profiles: z.array(PlayerProfile.extend({ lastPlayedAt: z.coerce.date() })),
+});
+const AttemptList = z.object({ attempts: z.array(StoredChallengeAttempt) });
+
+export interface RemotePlayer {
+  session: GameSession;
+  attempts: ChallengeAttempt[];
+}
+
+const SYNC_QUEUE_KEY = `${STORAGE_KEY}:sync-queue`;
+// The secret this device's family shares with the server; all of its players live under it
+const SYNC_TOKEN_KEY = `${STORAGE_KEY}:sync-token`;
+// Tokens the server accepts
+const SYNC_TOKEN_PATTERN = /^[0-9a-f]{32,128}$/;
+const API_BASE = '/api';
+
+// Wait after a change before pushing, so a burst of moves is sent once
+const PUSH_DELAY_MS = 5000;
+// Wait before trying again while the server is unreachable
+const RETRY_DELAY_MS = 30000;
+
+/**
+ * Offline-first queue of progress changes for the sync server. Changes are kept in storage
+ * until the server accepts them, and pushed whenever it is reachable.
+ */
+export class SyncQueue {
+  private changes: SyncChange[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private pushing?: Promise<void>;
+  // The change currently on its way, which must not be extended until it lands
+  private sending?: SyncChange;
+  private token = '';
+
+  /**
+   * Restore changes left from an earlier visit and push again whenever the browser comes online.
+   * A device without a family token yet starts a new family.
+   */
+  async load(): Promise<void> {
+    const raw = await saveStore.get(SYNC_QUEUE_KEY);
+    try {
+      this.changes = raw ? z.array(SyncChange).parse(JSON.parse(raw)) : [];
+    } catch (error) {
+      console.error('Failed to load sync queue', error);
+      this.changes = [];
+    }
+
+    const token = await saveStore.get(SYNC_TOKEN_KEY);
+    if (token) {
+      this.token = token;
+    } else {
+      this.joinFamily(createSyncToken());
+    }
+
+    window.addEventListener('online', () => void this.push());
+    this.schedule(0);
+  }
+
+  getToken(): string {
+    return this.token;
+  }
+
+  /**
+   * Sync as part of another device's family from now on. Throws when the token is not a
+   * family code.
+   */
+  joinFamily(token: string) {
+    if (!SYNC_TOKEN_PATTERN.test(token)) {
+      throw new Error('That is not a family code');
+    }
+    this.token = token;
+    saveStore.set(SYNC_TOKEN_KEY, token);
+  }
+
+  hasPendingChanges(playerId: string): boolean {
+    return this.changes.some((change) => change.playerId === playerId);
+  }
+
+  queueSession(playerId: string) {
+    const others = this.changes.filter(
+      (change) => !(change.kind === 'session' && change.playerId === playerId)
+    );
+    this.update([...others, { kind: 'session', playerId }]);
+  }
+
+  /**
+   * Add attempts to the player's waiting batch, which keeps only the newest the server accepts
+   */
+  queueAttempts(playerId: string, attempts: ChallengeAttempt[]) {
+    const existing = this.changes.find(
+      (change): change is Extract<SyncChange, { kind: 'attempts' }> =>
+        change !== this.sending && change.kind === 'attempts' && change.playerId === playerId
+    );
+    const pending = [...(existing?.attempts ?? []), ...attempts].slice(-MAX_PENDING_ATTEMPTS);
+    if (existing) {
+      existing.attempts = pending;
+      this.update(this.changes);
+    } else {
+      this.update([...this.changes, { kind: 'attempts', playerId, attempts: pending }]);
+    }
+  }
+
+  queueDelete(playerId: string) {
+    this.update([
+      ...this.changes.filter((change) => change.playerId !== playerId),
+      { kind: 'delete', playerId },
+    ]);
+  }
+
+  /**
+   * Send queued changes in order, stopping at the first that cannot be delivered
+   */
+  push(): Promise<void> {
+    this.pushing ??= this.sendAll().finally(() => {
+      this.pushing = undefined;
+    });
+    return this.pushing;
+  }
+
+  /**
+   * The family's players on the server, or null when it cannot be reached
+   */
+  async fetchProfiles(): Promise<PlayerProfile[] | null> {
+    const body = await this.request(ProfileList, '/profiles');
+    return body?.profiles ?? null;
+  }
+
+  /**
+   * A player's session and attempt history from the server, or null if unavailable
+   */
+  async fetchPlayer(playerId: string): Promise<RemotePlayer | null> {
+    try {
+      const path = `/profiles/${encodeURIComponent(playerId)}`;
+      const response = await this.fetch('GET', `${path}/session`);
+      const body = await this.request(AttemptList, `${path}/attempts`);
+      if (!response.ok || !body) {
+        return null;
+      }
+
+      return { session: parseSave(await response.text()), attempts: body.attempts };
+    } catch (error) {
+      console.warn(`Could not fetch ${playerId} from the sync server`, error);
+      return null;
+    }
+  }
+
+  private async sendAll() {
+    while (this.changes.length > 0) {
+      const change = this.changes[0];
+      this.sending = change;
+      const result = await this.send(change);
+      this.sending = undefined;
+      if (result === 'retry') {
+        this.schedule(RETRY_DELAY_MS);
+        return;
+      }
+      // Delivered, or refused for good (invalid, or the server already has newer progress)
+      this.update(this.changes.filter((entry) => entry !== change), false);
+    }
+  }
+
+  private async send(change: SyncChange): Promise<'done' | 'retry'> {
+    const path = `/profiles/${encodeURIComponent(change.playerId)}`;
+    try {
+      let response: Response;
+      switch (change.kind) {
+        case 'session': {
+          const save = await loadRawSession(change.playerId);
+          if (!save) {
+            return 'done';
+          }
+          response = await this.fetch('PUT', `${path}/session`, save);
+          break;
+        }
+        case 'attempts':
+          response = await this.fetch(
+            'POST',
+            `${path}/attempts`,
+            JSON.stringify({ attempts: change.attempts })
+          );
+          break;
+        case 'delete':
+          response = await this.fetch('DELETE', path);
+          break;
+      }
+
+      if (response.status >= 500) {
+        return 'retry';
+      }
+      if (!response.ok) {
+        console.warn(`Sync server refused ${change.kind} for ${change.playerId}`, response.status);
+      }
+      return 'done';
+    } catch {
+      // Offline or server down; keep the change for later
+      return 'retry';
+    }
+  }
+
+  /**
+   * GET a JSON body and validate it, or null when the server cannot be reached or sends
+   * something else
+   */
+  private async request<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, path: string) {
+    try {
+      const response = await this.fetch('GET', path);
+      if (!response.ok) {
+        return null;
+      }
+      const body = schema.safeParse(await response.json());
+      return body.success ? body.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private fetch(method: string, path: string, body?: string): Promise<Response> {
+    return fetch(`${API_BASE}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body,
+    });
+  }
+
+  private update(changes: SyncChange[], push = true) {
+    this.changes = changes;
+    saveStore.set(SYNC_QUEUE_KEY, () => JSON.stringify(this.changes));
+    if (push) {
+      this.schedule(PUSH_DELAY_MS);
+    }
+  }
+
+  private schedule(delay: number) {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.push();
+    }, delay);
+  }
+}
+
+// 128 random bits as hex; getRandomValues works on plain http pages too, unlike crypto.subtle
+function createSyncToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
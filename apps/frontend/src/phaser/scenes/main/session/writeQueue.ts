@@ -0,0 +1,73 @@
+import type { StorageBackend } from './backends';
+import { createStorageBackend } from './backends';
+
+// How long writes to the same key are gathered before one is stored
+const WRITE_DELAY_MS = 1000;
+
+// Produces the value to store at flush time, or null to remove the key
+type PendingWrite = () => string | null;
+
+/**
+ * Coalesces writes in front of a storage backend. Only the latest write to each key is kept,
+ * and it is serialized when flushed, so a burst of moves costs one JSON.stringify of the map.
+ * Reads see pending writes.
+ */
+export class WriteQueue {
+  private readonly pending = new Map<string, PendingWrite>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly backend: StorageBackend) {}
+
+  async get(key: string): Promise<string | null> {
+    if (!this.pending.has(key)) {
+      // Let writes already on their way land first
+      await this.flushing;
+    }
+    const write = this.pending.get(key);
+    return write ? write() : this.backend.getItem(key);
+  }
+
+  /**
+   * Store a value; pass a function to defer building it until the write happens
+   */
+  set(key: string, value: string | (() => string)) {
+    this.schedule(key, typeof value === 'string' ? () => value : value);
+  }
+
+  remove(key: string) {
+    this.schedule(key, () => null);
+  }
+
+  /**
+   * Write everything pending now
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const writes = [...this.pending];
+    this.pending.clear();
+    this.flushing = this.flushing.then(() => this.write(writes));
+    return this.flushing;
+  }
+
+  private schedule(key: string, write: PendingWrite) {
+    this.pending.set(key, write);
+    this.timer ??= setTimeout(() => void this.flush(), WRITE_DELAY_MS);
+  }
+
+  private async write(writes: [string, PendingWrite][]) {
+    for (const [key, write] of writes) {
+      try {
+        const value = write();
+        await (value === null ? this.backend.removeItem(key) : this.backend.setItem(key, value));
+      } catch (error) {
+        console.error(`Failed to save ${key}`, error);
+      }
+    }
+  }
+}
+
+// Shared by everything that saves game data
+export const saveStore = new WriteQueue(createStorageBackend());
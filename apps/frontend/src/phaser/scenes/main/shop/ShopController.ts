@@ -1,56 +1,36 @@
 import Phaser from 'phaser';
-import type { GameSession } from '../../../../lib';
-
-export interface ShopItem {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  icon: string;
-  onPurchase?: (session: GameSession) => void;
-}
+import type { CheckoutQuestion, GameSession, ShopItem, ShopOffer } from '../../../../lib';
+import { createCheckoutQuestion } from '../../../../lib';
+import type { AttemptResult } from '../challenge/ChallengeController';
+import { createNumberPad } from '../challenge/NumberPad';
+import type { ModalPanelControl } from '../panel';
+import { createModalPanel, createPanelButton, createSideButton } from '../panel';
 
 interface ShopCallbacks {
-  onPurchase: (item: ShopItem, session: GameSession) => void;
+  onPurchase: (item: ShopItem) => void;
   getSession: () => GameSession | null;
+  getOffers: () => ShopOffer[];
+  isCheckoutPractice: () => boolean;
+  onToggleCheckoutPractice: (enabled: boolean) => void;
+  onCheckoutAttempt: (question: CheckoutQuestion, result: AttemptResult) => void;
 }
 
-const SHOP_ITEMS: ShopItem[] = [
-  {
-    id: 'hint-pack',
-    name: 'Hint Pack',
-    description: 'Get helpful hints for 3 challenges',
-    price: 50,
-    icon: '💡',
-  },
-  {
-    id: 'streak-boost',
-    name: 'Streak Boost',
-    description: 'Double your next streak reward',
-    price: 100,
-    icon: '⚡',
-  },
-  {
-    id: 'coin-multiplier',
-    name: 'Coin Multiplier',
-    description: 'Earn 2x coins for 5 challenges',
-    price: 150,
-    icon: '💰',
-  },
-  {
-    id: 'skip-challenge',
-    name: 'Challenge Skip',
-    description: 'Skip one difficult challenge',
-    price: 200,
-    icon: '⏭️',
-  },
-];
+// A purchase waiting on its checkout sum
+interface Checkout {
+  offer: ShopOffer;
+  question: CheckoutQuestion;
+  input: string;
+  attempts: number;
+  feedback: string;
+  shownAt: number;
+}
 
 export class ShopController {
-  private container?: Phaser.GameObjects.Container;
-  private overlay?: Phaser.GameObjects.Rectangle;
+  private panel?: ModalPanelControl;
   private shopButton?: Phaser.GameObjects.Container;
   private isOpen = false;
+  private page = 0;
+  private checkout?: Checkout;
   private callbacks?: ShopCallbacks;
 
   constructor(private readonly scene: Phaser.Scene) {}
@@ -61,11 +41,8 @@ export class ShopController {
   }
 
   destroy() {
-    this.container?.destroy(true);
-    this.overlay?.destroy();
+    this.hide();
     this.shopButton?.destroy(true);
-    this.container = undefined;
-    this.overlay = undefined;
     this.shopButton = undefined;
     this.callbacks = undefined;
   }
@@ -82,66 +59,13 @@ export class ShopController {
   }
 
   private createShopButton() {
-    const canvas = this.scene.game.canvas;
-    const parent = canvas?.parentElement;
-    const actualWidth = parent?.clientWidth ?? this.scene.scale.width;
-    const isMobile = actualWidth < 500;
-    
-    // Scale button based on screen size
-    const buttonWidth = isMobile ? 50 : 70;
-    const buttonHeight = isMobile ? 70 : 100;
-    const iconSize = isMobile ? '24px' : '36px';
-    const labelSize = isMobile ? '10px' : '14px';
-    const iconY = isMobile ? -8 : -12;
-    const labelY = isMobile ? 16 : 24;
-    
-    const buttonX = 10;
-    const buttonY = isMobile ? 80 : 100;
-
-    const container = this.scene.add.container(buttonX, buttonY);
-    container.setDepth(15);
-
-    // Button background - responsive size for mobile
-    const background = this.scene.add.rectangle(0, 0, buttonWidth, buttonHeight, 0x4cc9f0, 0.9);
-    background.setStrokeStyle(isMobile ? 2 : 3, 0xffffff, 0.6);
-    background.setOrigin(0, 0.5);
-
-    // Shop icon - responsive size
-    const icon = this.scene.add.text(buttonWidth / 2, iconY, '🛒', {
-      fontSize: iconSize,
-    });
-    icon.setOrigin(0.5);
-
-    // Label - responsive text
-    const label = this.scene.add.text(buttonWidth / 2, labelY, 'SHOP', {
-      fontFamily: 'Poppins, sans-serif',
-      fontSize: labelSize,
-      color: '#ffffff',
-      fontStyle: 'bold',
-    });
-    label.setOrigin(0.5);
-
-    container.add([background, icon, label]);
-
-    // Make interactive
-    background.setInteractive({ useHandCursor: true });
-    background.on('pointerdown', () => {
-      if (this.isOpen) {
-        this.hide();
-      } else {
-        this.show();
-      }
+    this.shopButton = createSideButton(this.scene, {
+      icon: '🛒',
+      label: 'SHOP',
+      color: 0x4cc9f0,
+      slot: 0,
+      onClick: () => (this.isOpen ? this.hide() : this.show()),
     });
-
-    background.on('pointerover', () => {
-      background.setScale(1.05);
-    });
-
-    background.on('pointerout', () => {
-      background.setScale(1);
-    });
-
-    this.shopButton = container;
   }
 
   private show() {
@@ -151,33 +75,9 @@ export class ShopController {
 
     this.isOpen = true;
 
-    // Create overlay
-    const overlay = this.scene.add.rectangle(
-      this.scene.scale.width / 2,
-      this.scene.scale.height / 2,
-      this.scene.scale.width,
-      this.scene.scale.height,
-      0x000000,
-      0.7
-    );
-    overlay.setDepth(25);
-    overlay.setInteractive(); // Block clicks to game behind overlay
-    this.overlay = overlay;
-
-    // Create shop panel
-    const panelWidth = Math.min(500, this.scene.scale.width - 40);
-    const panelHeight = Math.min(600, this.scene.scale.height - 40);
-    const panelX = this.scene.scale.width / 2;
-    const panelY = this.scene.scale.height / 2;
-
-    const container = this.scene.add.container(panelX, panelY);
-    container.setDepth(30);
-
-    // Panel background
-    const background = this.scene.add.rectangle(0, 0, panelWidth, panelHeight, 0x1b2d44, 0.98);
-    background.setStrokeStyle(3, 0x4cc9f0, 0.8);
-    background.setInteractive(); // Prevent clicks from passing through
-    container.add(background);
+    const panel = createModalPanel(this.scene, { accentColor: 0x4cc9f0 });
+    const { container, width: panelWidth, height: panelHeight } = panel;
+    this.panel = panel;
 
     // Title
     const title = this.scene.add.text(0, -panelHeight / 2 + 30, '🛒 SHOP', {
@@ -200,25 +100,38 @@ export class ShopController {
     currencyText.setOrigin(0.5);
     container.add(currencyText);
 
-    // Create item list
+    if (this.checkout) {
+      this.renderCheckout(panel, this.checkout);
+      return;
+    }
+
+    container.add(this.createPracticeToggle(panelWidth / 2 - 75, -panelHeight / 2 + 30));
+
+    // Create item list, a page at a time when the catalog outgrows the panel
     const startY = -panelHeight / 2 + 120;
     const itemHeight = 100;
     const itemSpacing = 10;
+    const listBottom = panelHeight / 2 - 70; // above the close button
+    const offers = this.callbacks.getOffers();
+    const itemsPerPage = Math.max(1, Math.floor((listBottom - startY - 45) / (itemHeight + itemSpacing)) + 1);
+    const pageCount = Math.max(1, Math.ceil(offers.length / itemsPerPage));
+    this.page = Math.min(this.page, pageCount - 1);
 
-    SHOP_ITEMS.forEach((item, index) => {
+    offers.slice(this.page * itemsPerPage, (this.page + 1) * itemsPerPage).forEach((offer, index) => {
       const itemY = startY + index * (itemHeight + itemSpacing);
-      const itemContainer = this.createShopItem(item, itemY, panelWidth - 40, currencyText);
+      const itemContainer = this.createShopItem(offer, itemY, panelWidth - 40, currencyText);
       container.add(itemContainer);
     });
 
-    // Close button
-    const closeButton = this.createCloseButton(panelWidth, panelHeight);
-    container.add(closeButton);
+    if (pageCount > 1) {
+      container.add(this.createPager(panelHeight / 2 - 40, pageCount));
+    }
 
-    this.container = container;
+    container.add(this.createCloseButton(panelHeight));
   }
 
-  private createShopItem(item: ShopItem, y: number, width: number, currencyText: Phaser.GameObjects.Text): Phaser.GameObjects.Container {
+  private createShopItem(offer: ShopOffer, y: number, width: number, currencyText: Phaser.GameObjects.Text): Phaser.GameObjects.Container {
+    const { item, remaining } = offer;
     const container = this.scene.add.container(0, y);
 
     // Item background
@@ -234,7 +147,8 @@ export class ShopController {
     container.add(icon);
 
     // Item name
-    const nameText = this.scene.add.text(-width / 2 + 80, -15, item.name, {
+    const name = remaining === null ? item.name : `${item.name} (${remaining} left)`;
+    const nameText = this.scene.add.text(-width / 2 + 80, -15, name, {
       fontFamily: 'Poppins, sans-serif',
       fontSize: '18px',
       color: '#ffffff',
@@ -253,27 +167,29 @@ export class ShopController {
     container.add(descText);
 
     // Price and buy button
-    const buyButton = this.createBuyButton(item, width, currencyText);
+    const buyButton = this.createBuyButton(offer, width, currencyText);
     container.add(buyButton);
 
     return container;
   }
 
-  private createBuyButton(item: ShopItem, itemWidth: number, currencyText: Phaser.GameObjects.Text): Phaser.GameObjects.Container {
+  private createBuyButton(offer: ShopOffer, itemWidth: number, currencyText: Phaser.GameObjects.Text): Phaser.GameObjects.Container {
+    const { item, status } = offer;
     const container = this.scene.add.container(itemWidth / 2 - 80, 0);
 
     const buttonWidth = 120;
     const buttonHeight = 40;
 
     const session = this.callbacks?.getSession();
-    const canAfford = (session?.player.currency || 0) >= item.price;
+    const canAfford = status === 'available';
+    const label = this.getBuyLabel(offer);
 
     const background = this.scene.add.rectangle(0, 0, buttonWidth, buttonHeight, canAfford ? 0x43aa8b : 0x666666, 0.9);
     background.setStrokeStyle(2, canAfford ? 0x90ee90 : 0x888888, 0.6);
 
-    const text = this.scene.add.text(0, 0, `${item.price} 💰`, {
+    const text = this.scene.add.text(0, 0, label, {
       fontFamily: 'Poppins, sans-serif',
-      fontSize: '16px',
+      fontSize: status === 'locked' ? '13px' : '16px',
       color: canAfford ? '#ffffff' : '#aaaaaa',
       fontStyle: 'bold',
     });
@@ -286,7 +202,20 @@ export class ShopController {
 
     background.on('pointerdown', () => {
       if (canAfford && this.callbacks && session) {
-        this.callbacks.onPurchase(item, session);
+        if (this.callbacks.isCheckoutPractice()) {
+          // Work out the sum first; the purchase goes through once it is right
+          this.checkout = {
+            offer,
+            question: createCheckoutQuestion(offer, session.player.currency),
+            input: '',
+            attempts: 0,
+            feedback: '',
+            shownAt: Date.now(),
+          };
+          this.refresh();
+          return;
+        }
+        this.callbacks.onPurchase(item);
         // Update currency display
         currencyText.setText(`💰 Your Coins: ${session.player.currency}`);
         // Refresh the shop to update buy buttons
@@ -310,15 +239,27 @@ export class ShopController {
     return container;
   }
 
-  private createCloseButton(_panelWidth: number, panelHeight: number): Phaser.GameObjects.Container {
-    const container = this.scene.add.container(0, panelHeight / 2 - 40);
+  private getBuyLabel({ item, status, price, discountPercent }: ShopOffer): string {
+    switch (status) {
+      case 'locked':
+        return `🔒 ${item.unlocksAt} level`;
+      case 'sold-out':
+        return 'Sold out';
+      default:
+        return discountPercent > 0 ? `${price} 💰 -${discountPercent}%` : `${price} 💰`;
+    }
+  }
+
+  private createPracticeToggle(x: number, y: number): Phaser.GameObjects.Container {
+    const enabled = this.callbacks?.isCheckoutPractice() ?? false;
+    const container = this.scene.add.container(x, y);
 
-    const background = this.scene.add.rectangle(0, 0, 120, 40, 0xff6b6b, 0.9);
-    background.setStrokeStyle(2, 0xffffff, 0.6);
+    const background = this.scene.add.rectangle(0, 0, 130, 32, enabled ? 0x43aa8b : 0x2d4263, 0.9);
+    background.setStrokeStyle(2, 0x4cc9f0, 0.5);
 
-    const text = this.scene.add.text(0, 0, 'Close', {
+    const text = this.scene.add.text(0, 0, enabled ? '🧮 Practice: ON' : '🧮 Practice: OFF', {
       fontFamily: 'Poppins, sans-serif',
-      fontSize: '18px',
+      fontSize: '13px',
       color: '#ffffff',
       fontStyle: 'bold',
     });
@@ -327,17 +268,172 @@ export class ShopController {
     container.add([background, text]);
 
     background.setInteractive({ useHandCursor: true });
-    background.on('pointerdown', () => this.hide());
+    background.on('pointerdown', () => {
+      this.callbacks?.onToggleCheckoutPractice(!enabled);
+      this.refresh();
+    });
 
-    background.on('pointerover', () => {
-      background.setScale(1.05);
+    return container;
+  }
+
+  /**
+   * The checkout sum with a number pad; a right answer completes the purchase
+   */
+  private renderCheckout(panel: ModalPanelControl, checkout: Checkout) {
+    const { container, width: panelWidth, height: panelHeight } = panel;
+    const { offer, question } = checkout;
+
+    const heading = this.scene.add.text(0, -panelHeight / 2 + 120, `${offer.item.icon} Checkout`, {
+      fontFamily: 'Poppins, sans-serif',
+      fontSize: '24px',
+      color: '#ffffff',
+      fontStyle: 'bold',
     });
+    heading.setOrigin(0.5);
 
-    background.on('pointerout', () => {
-      background.setScale(1);
+    const prompt = this.scene.add.text(0, heading.y + 70, question.prompt, {
+      fontFamily: 'Poppins, sans-serif',
+      fontSize: '18px',
+      color: '#dce8ff',
+      align: 'center',
+      lineSpacing: 6,
+      wordWrap: { width: panelWidth - 60 },
     });
+    prompt.setOrigin(0.5);
 
-    return container;
+    const answerText = this.scene.add.text(0, prompt.y + 85, checkout.input || '—', {
+      fontFamily: 'Poppins, sans-serif',
+      fontSize: '36px',
+      color: '#ffd166',
+      backgroundColor: 'rgba(255,255,255,0.08)',
+      padding: { x: 24, y: 10 },
+    });
+    answerText.setOrigin(0.5);
+
+    const feedbackText = this.scene.add.text(0, answerText.y + 105, checkout.feedback, {
+      fontFamily: 'Poppins, sans-serif',
+      fontSize: '15px',
+      color: '#ffccd5',
+      align: 'center',
+      wordWrap: { width: panelWidth - 60 },
+    });
+    feedbackText.setOrigin(0.5);
+
+    const updateAnswer = () => answerText.setText(checkout.input || '—');
+    const press = (digit: string) => {
+      if (/^[0-9]$/.test(digit) && checkout.input.length < 6) {
+        checkout.input += digit;
+        updateAnswer();
+      }
+    };
+    const backspace = () => {
+      checkout.input = checkout.input.slice(0, -1);
+      updateAnswer();
+    };
+    const submit = () => this.submitCheckout(checkout);
+
+    const numberPad = createNumberPad({
+      scene: this.scene,
+      y: answerText.y + 55,
+      onNumberPress: press,
+      onBackspace: backspace,
+      onSubmit: submit,
+    });
+
+    panel.listenForKeys(press, backspace, submit);
+
+    const cancelButton = this.createCloseButton(panelHeight, 'Cancel', () => {
+      this.checkout = undefined;
+      this.refresh();
+    });
+
+    container.add([heading, prompt, answerText, numberPad.container, feedbackText, cancelButton]);
+  }
+
+  private submitCheckout(checkout: Checkout) {
+    if (!this.callbacks || checkout.input.length === 0) {
+      return;
+    }
+
+    const { question, offer } = checkout;
+    const submitted = Number(checkout.input);
+    const isCorrect = submitted === question.answer;
+    checkout.attempts += 1;
+    this.callbacks.onCheckoutAttempt(question, {
+      submittedAnswer: submitted,
+      isCorrect,
+      timeSpent: Math.max((Date.now() - checkout.shownAt) / 1000, 0.1),
+      attemptsCount: checkout.attempts,
+    });
+
+    if (isCorrect) {
+      this.checkout = undefined;
+      this.callbacks.onPurchase(offer.item);
+      this.hide();
+      this.show();
+      return;
+    }
+
+    checkout.input = '';
+    checkout.feedback =
+      checkout.attempts >= 2
+        ? this.getCheckoutHint(question, offer)
+        : 'Not quite! Check your sum and try again.';
+    this.refresh();
+  }
+
+  private getCheckoutHint(question: CheckoutQuestion, offer: ShopOffer): string {
+    const saleHint =
+      offer.discountPercent > 0
+        ? `${offer.discountPercent}% of ${offer.listPrice} is ${offer.listPrice - offer.price}, ` +
+          `so it costs ${offer.price}. `
+        : '';
+    return `Hint: ${saleHint}Work out ${question.paid} - ${question.price}.`;
+  }
+
+  private createPager(y: number, pageCount: number): Phaser.GameObjects.Container {
+    const pager = this.scene.add.container(0, y);
+
+    const createArrow = (x: number, icon: string, step: number) => {
+      const background = this.scene.add.rectangle(x, 0, 48, 40, 0x4cc9f0, 0.9);
+      background.setStrokeStyle(2, 0xffffff, 0.6);
+      background.setInteractive({ useHandCursor: true });
+      background.on('pointerdown', () => {
+        this.page = (this.page + step + pageCount) % pageCount;
+        this.hide();
+        this.show();
+      });
+      const text = this.scene.add.text(x, 0, icon, { fontSize: '18px' }).setOrigin(0.5);
+      pager.add([background, text]);
+    };
+
+    createArrow(-100, '◀', -1);
+    createArrow(100, '▶', 1);
+    return pager;
+  }
+
+  private createCloseButton(
+    panelHeight: number,
+    label = 'Close',
+    onClick = () => this.hide()
+  ): Phaser.GameObjects.Container {
+    return createPanelButton(this.scene, {
+      y: panelHeight / 2 - 40,
+      width: 120,
+      label,
+      color: 0xff6b6b,
+      onClick,
+    });
+  }
+
+  /**
+   * Redraw the open shop, keeping any checkout in progress
+   */
+  private refresh() {
+    const checkout = this.checkout;
+    this.hide();
+    this.checkout = checkout;
+    this.show();
   }
 
   hide() {
@@ -346,27 +442,15 @@ export class ShopController {
     }
 
     this.isOpen = false;
-    this.container?.destroy(true);
-    this.overlay?.destroy();
-    this.container = undefined;
-    this.overlay = undefined;
+    this.checkout = undefined;
+    this.panel?.destroy();
+    this.panel = undefined;
   }
 
   handleResize(width: number, height: number) {
     // Recreate shop button with new responsive sizing
     this.shopButton?.destroy(true);
     this.createShopButton();
-    
-    if (!this.container) {
-      return;
-    }
-
-    // Update shop modal if open
-    const overlay = this.scene.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7);
-    overlay.setDepth(25);
-    this.overlay?.destroy();
-    this.overlay = overlay;
-
-    this.container.setPosition(width / 2, height / 2);
+    this.panel?.resize(width, height);
   }
 }
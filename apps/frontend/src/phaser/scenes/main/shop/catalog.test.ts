@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { SHOP_CATALOG, parseShopCatalog } from './catalog';
+
+const item = {
+  id: 'hint-pack',
+  name: 'Hint Pack',
+  description: 'Get helpful hints for 3 challenges',
+  price: 50,
+  icon: '💡',
+  effect: { type: 'hints', amount: 3 },
+};
+
+describe('parseShopCatalog', () => {
+  it('accepts the shipped catalog', () => {
+    expect(SHOP_CATALOG.length).toBeGreaterThan(0);
+  });
+
+  it('fills in defaults for optional fields', () => {
+    expect(parseShopCatalog({ items: [item] })).toEqual([{ ...item, unlocksAt: 'infant' }]);
+  });
+
+  it('rejects duplicate ids', () => {
+    expect(() => parseShopCatalog({ items: [item, item] })).toThrow(/unique/);
+  });
+
+  it('says which field failed validation', () => {
+    const free = { ...item, price: 0 };
+    expect(() => parseShopCatalog({ items: [free] })).toThrow(/items\.0\.price/);
+  });
+
+  it('rejects effects that have no handler', () => {
+    const magic = { ...item, effect: { type: 'magic', amount: 1 } };
+    expect(() => parseShopCatalog({ items: [magic] })).toThrow(/hint-pack: magic/);
+  });
+});
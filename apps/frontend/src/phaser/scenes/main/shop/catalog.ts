@@ -0,0 +1,29 @@
+import type { ShopItem } from '../../../../lib';
+import { ShopCatalog } from '../../../../lib';
+import catalogData from './catalog.json';
+import { SHOP_EFFECTS } from './effects';
+
+/**
+ * Validate a shop catalog, including that every item's effect has a handler.
+ * Throws listing the problems, so a bad edit to the catalog fails loudly at startup.
+ */
+export function parseShopCatalog(data: unknown): ShopItem[] {
+  const result = ShopCatalog.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || 'catalog'}: ${issue.message}`);
+    throw new Error(`Shop catalog failed validation (${issues.join('; ')})`);
+  }
+
+  const unknownEffects = result.data.items
+    .filter((item) => !Object.hasOwn(SHOP_EFFECTS, item.effect.type))
+    .map((item) => `${item.id}: ${item.effect.type}`);
+  if (unknownEffects.length > 0) {
+    throw new Error(`Shop catalog names unknown effects (${unknownEffects.join('; ')})`);
+  }
+
+  return result.data.items;
+}
+
+export const SHOP_CATALOG = parseShopCatalog(catalogData);
@@ -0,0 +1,15 @@
+import type { GameStateManager } from '../state/GameStateManager';
+
+// Applies a bought item to the current player; the amount comes from the catalog entry
+export type ShopEffectHandler = (state: GameStateManager, amount: number) => void;
+
+/**
+ * Effects a catalog item can name in `effect.type`. New kinds of item need a handler here;
+ * new items built from existing effects only need a catalog entry.
+ */
+export const SHOP_EFFECTS: Record<string, ShopEffectHandler> = {
+  hints: (state, amount) => state.addItem('hints', amount),
+  'streak-boosts': (state, amount) => state.addItem('streakBoosts', amount),
+  'challenge-skips': (state, amount) => state.addItem('challengeSkips', amount),
+  'coin-multiplier': (state, amount) => state.addCoinMultiplierCharges(amount),
+};
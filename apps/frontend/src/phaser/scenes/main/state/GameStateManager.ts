@@ -1,8 +1,63 @@
-import type { DifficultyLevel, GameSession } from '../../../../lib';
-import { generateTileMap } from '../../../../lib';
-import { loadSession, saveSession } from '../session/storage';
-import { FIXED_MAP_SIZE } from '../constants';
+import type {
+  ChallengeAttempt,
+  CheckoutQuestion,
+  ChestLoot,
+  DifficultyLevel,
+  GameSession,
+  Inventory,
+  InventoryItem,
+  MathChallenge,
+  PlayerProfile,
+  ReviewQueue,
+  ShopItem,
+  ShopOffer,
+} from '../../../../lib';
+import {
+  addInterest,
+  createReviewQueue,
+  createSavingsAccount,
+  depositSavings,
+  formatChallenge,
+  generateTileMap,
+  getDueReview,
+  getFactKey,
+  getInterestKind,
+  getShopOffers,
+  getStreakBonus,
+  recordReviewOutcome,
+  recordShopPurchase,
+  toDayKey,
+  toReviewChallenge,
+  updateMastery,
+  withdrawSavings,
+} from '../../../../lib';
+import {
+  deleteProfile,
+  flushStorage,
+  getDamage,
+  initializeStorage,
+  loadProfiles,
+  loadSession,
+  renameProfile,
+  restoreBackup,
+  saveSession,
+  setActiveProfile,
+} from '../session/storage';
+import {
+  appendAttempts,
+  clearAttemptLog,
+  flushAttemptLogs,
+  loadAttemptLog,
+  replaceAttemptLog,
+} from '../session/attemptLog';
+import type { ImportedSave } from '../session/saveFile';
+import { createSaveFile, readSaveFile } from '../session/saveFile';
+import { SyncQueue } from '../session/syncQueue';
+import { SHOP_CATALOG } from '../shop/catalog';
+import { SHOP_EFFECTS } from '../shop/effects';
+import { FIXED_MAP_SIZE, PLAY_TIME_DAYS_KEPT } from '../constants';
 import type { GamePhase } from '../types';
+import type { AttemptResult } from '../challenge/ChallengeController';
 
 /**
  * Manages game session state, phase transitions, and persistence
@@ -10,6 +65,10 @@ import type { GamePhase } from '../types';
 export class GameStateManager {
   private phase: GamePhase = 'menu';
   private session: GameSession | null = null;
+  // Current player's attempt history as last loaded or appended
+  private attemptLog: ChallengeAttempt[] = [];
+  // Changes waiting to reach the sync server
+  private readonly sync = new SyncQueue();
 
   /**
    * Get the current game phase
@@ -37,24 +96,207 @@ export class GameStateManager {
    */
   setSession(session: GameSession | null) {
     this.session = session;
+    this.attemptLog = [];
+    if (session) {
+      const playerId = session.player.id;
+      this.trackAttemptLog(playerId, loadAttemptLog(playerId));
+    }
   }
 
   /**
-   * Load existing session from storage
+   * Open storage and load the session of whoever played last
    */
-  loadExistingSession(): GameSession | null {
-    const session = loadSession();
+  async loadExistingSession(): Promise<GameSession | null> {
+    await initializeStorage();
+    await this.sync.load();
+    const session = await loadSession();
     if (session) {
-      this.session = session;
+      this.setSession(session);
     }
     return session;
   }
 
   /**
-   * Persist the current session to storage
+   * Queue the current session to be saved and synced; rapid calls are written once
    */
   persistSession() {
+    if (!this.session) return;
+    if (this.phase === 'play') {
+      this.session.player.lastPlayedAt = new Date();
+    }
     saveSession(this.session);
+    this.sync.queueSession(this.session.player.id);
+  }
+
+  /**
+   * Push local changes, then bring in newer progress on the server (e.g. played on another
+   * device) for players saved on this device. Leaves alone anyone with unsent changes and the
+   * player in the middle of a map. Resolves to whether anything changed locally.
+   */
+  async syncWithServer(): Promise<boolean> {
+    await this.sync.push();
+    const remoteProfiles = await this.sync.fetchProfiles();
+    if (!remoteProfiles) {
+      return false;
+    }
+
+    const localProfiles = new Map(loadProfiles().map((profile) => [profile.id, profile]));
+    let changed = false;
+    for (const remote of remoteProfiles) {
+      const local = localProfiles.get(remote.id);
+      const isPlaying = this.phase === 'play' && this.session?.player.id === remote.id;
+      // Players reach a device by being created or imported there, not from the server
+      if (
+        !local ||
+        local.lastPlayedAt >= remote.lastPlayedAt ||
+        isPlaying ||
+        this.sync.hasPendingChanges(remote.id)
+      ) {
+        continue;
+      }
+
+      const player = await this.sync.fetchPlayer(remote.id);
+      if (!player) {
+        continue;
+      }
+
+      saveSession(player.session, false);
+      this.trackAttemptLog(remote.id, replaceAttemptLog(remote.id, player.attempts));
+      if (this.session?.player.id === remote.id) {
+        this.setSession(player.session);
+      }
+      changed = true;
+    }
+    return changed;
+  }
+
+  /**
+   * Write everything queued now, e.g. before the page is hidden
+   */
+  async flush(): Promise<void> {
+    await flushAttemptLogs();
+    await flushStorage();
+  }
+
+  /**
+   * Saved players, most recently played first
+   */
+  getProfiles(): PlayerProfile[] {
+    return loadProfiles();
+  }
+
+  /**
+   * Switch to a saved player, saving the current one first
+   */
+  async selectProfile(profileId: string): Promise<GameSession | null> {
+    if (this.session?.player.id === profileId) {
+      return this.session;
+    }
+
+    const session = await loadSession(profileId);
+    if (!session) {
+      return null;
+    }
+
+    this.persistSession();
+    setActiveProfile(profileId);
+    this.setSession(session);
+    return session;
+  }
+
+  /**
+   * Whether a saved player failed to load, and if so whether their backup can be restored
+   */
+  getProfileDamage(profileId: string): { hasBackup: boolean } | null {
+    return getDamage(profileId);
+  }
+
+  /**
+   * Replace a saved player's unreadable save with their backup and switch to them
+   */
+  async restoreProfile(profileId: string): Promise<GameSession | null> {
+    const session = await restoreBackup(profileId);
+    return session ? this.selectProfile(profileId) : null;
+  }
+
+  /**
+   * Rename a saved player; rejects, with nothing queued to sync, when their save cannot be updated
+   */
+  async renameProfile(profileId: string, name: string): Promise<void> {
+    const trimmed = name.trim();
+    await renameProfile(profileId, trimmed);
+    this.sync.queueSession(profileId);
+    if (this.session?.player.id === profileId) {
+      this.session.player.name = trimmed;
+    }
+  }
+
+  /**
+   * Remove a saved player along with their attempt history
+   */
+  deleteProfile(profileId: string) {
+    deleteProfile(profileId);
+    this.sync.queueDelete(profileId);
+    this.trackAttemptLog(profileId, clearAttemptLog(profileId));
+    if (this.session?.player.id === profileId) {
+      this.setSession(null);
+    }
+  }
+
+  /**
+   * The code another device enters to sync with this device's family
+   */
+  getFamilyCode(): string {
+    return this.sync.getToken();
+  }
+
+  /**
+   * Sync with the family of the device that shows this code from now on, sending it the players
+   * saved here. Spaces are ignored so the code can be typed as shown. Throws when the code is
+   * not one.
+   */
+  joinFamily(code: string) {
+    const token = code.replace(/\s+/g, '').toLowerCase();
+    if (token === this.sync.getToken()) {
+      return;
+    }
+    this.sync.joinFamily(token);
+    for (const profile of loadProfiles()) {
+      this.sync.queueSession(profile.id);
+    }
+  }
+
+  /**
+   * A saved player's session and attempt history as a checksummed save file
+   */
+  async exportProfile(profileId: string): Promise<string | null> {
+    this.persistSession();
+    const session = await loadSession(profileId);
+    if (!session) {
+      return null;
+    }
+    return createSaveFile(session, await loadAttemptLog(profileId));
+  }
+
+  /**
+   * Read and check a save file without adding its player yet.
+   * Throws when the file is damaged or fails validation.
+   */
+  readSave(text: string): ImportedSave {
+    return readSaveFile(text);
+  }
+
+  /**
+   * Add (or replace) the player from a save file and switch to them
+   */
+  importSave({ session, attempts }: ImportedSave): GameSession {
+    this.persistSession();
+    saveSession(session);
+    this.trackAttemptLog(session.player.id, replaceAttemptLog(session.player.id, attempts));
+    this.sync.queueSession(session.player.id);
+    this.sync.queueAttempts(session.player.id, attempts);
+    this.setSession(session);
+    return session;
   }
 
   /**
@@ -66,7 +308,10 @@ export class GameStateManager {
     const initialDifficulty: DifficultyLevel = 'infant';
     const map = generateTileMap('map-1', FIXED_MAP_SIZE, FIXED_MAP_SIZE, initialDifficulty);
 
-    this.session = {
+    // Each new adventure is a new profile; the current player's save stays as it is
+    this.persistSession();
+
+    const session: GameSession = {
       player: {
         id: `player-${now.getTime()}`,
         name: trimmed,
@@ -80,13 +325,20 @@ export class GameStateManager {
         createdAt: now,
         lastPlayedAt: now,
         coinMultiplierCharges: 0,
+        inventory: { hints: 0, streakBoosts: 0, challengeSkips: 0 },
+        checkoutPractice: false,
+        savings: createSavingsAccount(),
+        mastery: {},
+        reviewQueue: createReviewQueue(),
+        playTimeByDay: {},
       },
       currentMap: map,
       gameStartedAt: now,
       isPaused: false,
     };
 
-    return this.session;
+    this.setSession(session);
+    return session;
   }
 
   /**
@@ -98,10 +350,11 @@ export class GameStateManager {
   }
 
   /**
-   * Update streak and stats after successful challenge
+   * Update streak and stats after successful challenge, paying any streak bonus
+   * (doubled by a streak boost). Returns the bonus coins earned and whether a boost doubled them.
    */
-  updateStreakAndStats() {
-    if (!this.session) return;
+  updateStreakAndStats(): { bonus: number; boosted: boolean } {
+    if (!this.session) return { bonus: 0, boosted: false };
     
     this.session.player.totalChallengesCompleted += 1;
     this.session.player.currentStreak += 1;
@@ -109,6 +362,50 @@ export class GameStateManager {
       this.session.player.bestStreak,
       this.session.player.currentStreak,
     );
+
+    const bonus = getStreakBonus(this.session.player.currentStreak);
+    const boosted = bonus > 0 && this.useItem('streakBoosts');
+    const earned = boosted ? bonus * 2 : bonus;
+    this.addCurrency(earned);
+    return { bonus: earned, boosted };
+  }
+
+  /**
+   * Log a submitted answer and fold it into the player's mastery estimates
+   */
+  recordAttempt(attempt: ChallengeAttempt) {
+    if (!this.session) return;
+    // Saves from before adaptive difficulty have no mastery yet
+    this.session.player.mastery = updateMastery(this.session.player.mastery ?? {}, attempt);
+    this.logAttempt(attempt);
+  }
+
+  /**
+   * Every logged attempt for the current player, oldest first (bounded to the most recent)
+   */
+  getAttemptHistory(): ChallengeAttempt[] {
+    return this.session ? this.attemptLog : [];
+  }
+
+  /**
+   * The challenge to show for one encounter: a missed fact that is due for review, keeping the
+   * challenge's id and reward, or the challenge unchanged when nothing is due
+   */
+  takeDueReview(challenge: MathChallenge): MathChallenge {
+    if (!this.session) return challenge;
+    const due = getDueReview(this.getReviewQueue());
+    if (!due || getFactKey(due.challenge) === getFactKey(challenge)) {
+      return challenge;
+    }
+    return toReviewChallenge(due, challenge);
+  }
+
+  /**
+   * Remember missed facts and move reviewed ones through their boxes
+   */
+  recordChallengeOutcome(challenge: MathChallenge, solved: boolean) {
+    if (!this.session) return;
+    this.session.player.reviewQueue = recordReviewOutcome(this.getReviewQueue(), challenge, solved);
   }
 
   /**
@@ -146,6 +443,170 @@ export class GameStateManager {
     return coinsEarned;
   }
 
+  /**
+   * Hand out the contents of a treasure chest
+   */
+  grantLoot(loot: ChestLoot) {
+    if (!this.session) return;
+
+    switch (loot.kind) {
+      case 'coins':
+        this.addCurrency(loot.amount);
+        break;
+      case 'coinMultiplierCharges':
+        this.addCoinMultiplierCharges(loot.amount);
+        break;
+      default:
+        this.addItem(loot.kind, loot.amount);
+        break;
+    }
+  }
+
+  /**
+   * The shop catalog with what the current player can buy on this map
+   */
+  getShopOffers(): ShopOffer[] {
+    if (!this.session) return [];
+    const { player, currentMap } = this.session;
+    return getShopOffers(SHOP_CATALOG, currentMap, player.currency, player.checkoutPractice);
+  }
+
+  /**
+   * Buy a shop item if it is unlocked, in stock and affordable, applying its effect.
+   * Returns false (and changes nothing) otherwise.
+   */
+  purchaseItem(item: ShopItem): boolean {
+    if (!this.session) return false;
+    const { player, currentMap } = this.session;
+    const [offer] = getShopOffers([item], currentMap, player.currency, player.checkoutPractice);
+    if (offer.status !== 'available') {
+      return false;
+    }
+
+    player.currency -= offer.price;
+    recordShopPurchase(currentMap, item);
+    SHOP_EFFECTS[item.effect.type](this, item.effect.amount);
+    this.updateLastPlayed();
+    return true;
+  }
+
+  /**
+   * Move coins from the wallet into savings; false if the wallet does not hold that many
+   */
+  deposit(amount: number): boolean {
+    if (!this.session || amount <= 0 || amount > this.session.player.currency) return false;
+    this.session.player.currency -= amount;
+    this.session.player.savings = depositSavings(this.session.player.savings, amount);
+    return true;
+  }
+
+  /**
+   * Move coins from savings back to the wallet; false if the account does not hold that many
+   */
+  withdraw(amount: number): boolean {
+    if (!this.session) return false;
+    const { savings } = this.session.player;
+    if (amount <= 0 || amount > savings.balance) return false;
+    this.session.player.savings = withdrawSavings(savings, amount);
+    this.addCurrency(amount);
+    return true;
+  }
+
+  setSavingsGoal(itemId: string | undefined) {
+    if (!this.session) return;
+    this.session.player.savings = { ...this.session.player.savings, goalItemId: itemId };
+  }
+
+  /**
+   * Pay interest on savings for the completed map; returns the coins earned
+   */
+  payInterest(): number {
+    if (!this.session) return 0;
+    const { account, interest } = addInterest(
+      this.session.player.savings,
+      getInterestKind(this.session.currentMap.difficulty)
+    );
+    this.session.player.savings = account;
+    return interest;
+  }
+
+  isCheckoutPractice(): boolean {
+    return this.session?.player.checkoutPractice ?? false;
+  }
+
+  setCheckoutPractice(enabled: boolean) {
+    if (!this.session) return;
+    this.session.player.checkoutPractice = enabled;
+  }
+
+  /**
+   * Log an answer to a checkout sum with the challenge attempts, as the subtraction it is.
+   * Mastery is left alone: wallet-sized sums are far harder than the map's subtraction level.
+   */
+  recordCheckoutAttempt(question: CheckoutQuestion, result: AttemptResult) {
+    if (!this.session) return;
+    const operands = [question.paid, question.price];
+    this.logAttempt({
+      challengeId: question.id,
+      playerId: this.session.player.id,
+      operation: 'subtraction',
+      difficulty: this.session.currentMap.difficulty,
+      fact: formatChallenge({ operation: 'subtraction', operands }),
+      operands,
+      ...result,
+      timestamp: new Date(),
+    });
+  }
+
+  addCoinMultiplierCharges(amount: number) {
+    if (!this.session) return;
+    this.session.player.coinMultiplierCharges += amount;
+  }
+
+  getInventory(): Inventory {
+    return this.session?.player.inventory ?? { hints: 0, streakBoosts: 0, challengeSkips: 0 };
+  }
+
+  addItem(item: InventoryItem, amount: number) {
+    if (!this.session) return;
+    const inventory = this.getInventory();
+    this.session.player.inventory = { ...inventory, [item]: inventory[item] + amount };
+  }
+
+  /**
+   * Spend one of an item, returning false when the player has none left
+   */
+  useItem(item: InventoryItem): boolean {
+    if (!this.session) return false;
+    const inventory = this.getInventory();
+    if (inventory[item] <= 0) {
+      return false;
+    }
+    this.session.player.inventory = { ...inventory, [item]: inventory[item] - 1 };
+    return true;
+  }
+
+  /**
+   * Count time spent playing towards today's total
+   */
+  addPlayTime(seconds: number) {
+    if (!this.session) return;
+    const { player } = this.session;
+    const today = toDayKey(new Date());
+    // Saves from before play-time tracking start an empty record
+    const playTime = (player.playTimeByDay = player.playTimeByDay ?? {});
+    if (playTime[today] === undefined) {
+      // A new day starts, so drop days too old for the report
+      const cutoff = new Date();
+      cutoff.setDate(cutoff.getDate() - PLAY_TIME_DAYS_KEPT);
+      const oldest = toDayKey(cutoff);
+      for (const day of Object.keys(playTime)) {
+        if (day < oldest) delete playTime[day];
+      }
+    }
+    playTime[today] = (playTime[today] ?? 0) + seconds;
+  }
+
   /**
    * Update last played timestamp
    */
@@ -153,4 +614,33 @@ export class GameStateManager {
     if (!this.session) return;
     this.session.player.lastPlayedAt = new Date();
   }
+
+  /**
+   * The player's review queue (saves from before reviews have none yet)
+   */
+  private getReviewQueue(): ReviewQueue {
+    return this.session?.player.reviewQueue ?? createReviewQueue();
+  }
+
+  private logAttempt(attempt: ChallengeAttempt) {
+    if (!this.session) return;
+    const playerId = this.session.player.id;
+    this.trackAttemptLog(playerId, appendAttempts(playerId, [attempt]));
+    this.sync.queueAttempts(playerId, [attempt]);
+  }
+
+  /**
+   * Keep the in-memory copy of a player's attempt log once a load or update of it finishes,
+   * if they are still the current player
+   */
+  private trackAttemptLog(playerId: string, task: Promise<ChallengeAttempt[]>) {
+    task.then(
+      (log) => {
+        if (this.session?.player.id === playerId) {
+          this.attemptLog = log;
+        }
+      },
+      (error) => console.error('Failed to update attempt log', error)
+    );
+  }
 }
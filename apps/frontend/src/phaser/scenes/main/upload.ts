@@ -0,0 +1,16 @@
+/**
+ * Ask the player to pick a file and read it as text. Resolves to null if nothing is chosen.
+ */
+export function pickTextFile(accept: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      resolve(file ? file.text() : null);
+    });
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}